@@ -1,226 +1,479 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Play, Pause, FileSpreadsheet, Database, RefreshCw, AlertCircle, Download, Settings, Globe, Search } from 'lucide-react';
-import { fetchCharityPage, Charity, updateScraperConfig, getScraperConfig, ScraperConfig } from './api/scraper';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Play, Pause, FileSpreadsheet, Database, Plus, Download, Upload, Settings, Globe, XCircle, AlertCircle } from 'lucide-react';
+import { Charity, updateScraperConfig, getScraperConfig } from './api/scraper';
+import { getActiveProfile, validateScraperConfig } from './api/profiles';
+import { buildPageUrl } from './api/pagination';
+import { exportToGoogleSheets, getSheetsSettings } from './api/sheets';
+import { ExportFile, ExportSettings, exportFormats, exportRecords, getExportSettings, validateExportSettings } from './api/exports';
+import { RecordChanges } from './api/records';
+import { ImportMode } from './api/imports';
+import { getFieldValue, getSchema, hasValue } from './api/schema';
+import {
+  JobDetail,
+  JobEvent,
+  JobSettings,
+  JobSummary,
+  defaultJobSettings,
+  getActiveJobId,
+  isResumable,
+  setActiveJobId,
+  validateJobSettings
+} from './api/jobs';
+import {
+  ApiError,
+  cancelJob,
+  deleteJobRecords,
+  importJobRecords,
+  fetchJob,
+  fetchJobs,
+  pauseJob,
+  removeJob,
+  resumeJob,
+  saveRecordEdit,
+  submitJob,
+  subscribeToJobEvents,
+  updateJob
+} from './api/client';
+import { LogEntry, LogEvent, appendLogEntry, countLogLevels, createLogEntry, errorDetails } from './api/log';
+import { summarizeQuality } from './api/quality';
+import { RecordChange, exportChanges } from './api/compare';
+import { validateImportedRecord } from './api/imports';
+import {
+  SyncedRecords,
+  deleteLocalRecords,
+  findLegacyDatasets,
+  findLocalRecords,
+  keepLegacyRecords,
+  pruneLocalRecords,
+  removeLegacyDataset,
+  syncJobRecords
+} from './api/recordStore';
+import SettingsPanel from './components/SettingsPanel';
+import JobList from './components/JobList';
+import RecordTable from './components/RecordTable';
+import ImportPanel from './components/ImportPanel';
+import LogPanel from './components/LogPanel';
+import QualityReport from './components/QualityReport';
+import ComparisonPanel from './components/ComparisonPanel';
+import { downloadFile } from './utils/download';
 
+// Constants
+const READY_MESSAGE = 'Ready. Press "Start" to create a job from the active profile.';
+
+// Jobs run on the scraping server; the app starts and stops them and follows their progress
 function App() {
-  const [isRunning, setIsRunning] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [processedCount, setProcessedCount] = useState(0);
-  const [log, setLog] = useState<string[]>([]);
-  const [states, setStates] = useState<{[key: string]: number}>({});
-  const [charityData, setCharityData] = useState<Charity[]>([]);
   const [isExporting, setIsExporting] = useState(false);
-  const [hasMorePages, setHasMorePages] = useState(true);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [scraperConfig, setScraperConfig] = useState(getScraperConfig());
-  const [sourceUrl, setSourceUrl] = useState(scraperConfig.sourceUrl);
+  const [connected, setConnected] = useState(false);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  // The open job; null until a new job is started
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [log, setLog] = useState<LogEntry[]>(() => [createLogEntry({ level: 'info', message: READY_MESSAGE })]);
+  const [charityData, setCharityData] = useState<Charity[]>([]);
+  // Batch settings for the next start or continue
+  const [jobSettings, setJobSettings] = useState<JobSettings>(defaultJobSettings);
+  // Read by the event handler, which is subscribed once
+  const activeJobIdRef = useRef<string | undefined>(undefined);
+  // The open job's records as last synced; syncs run one after another so each builds on the last
+  const syncedRef = useRef<SyncedRecords | null>(null);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // The job and revision IndexedDB holds the shown records at; null while an edit is not synced yet
+  const [storedAt, setStoredAt] = useState<Omit<SyncedRecords, 'records'> | null>(null);
+  // Moving legacy records runs once per visit, even when the event stream reconnects meanwhile
+  const migrationRef = useRef<Promise<void> | null>(null);
 
-  const addLogMessage = (message: string) => {
-    setLog(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
-  };
+  const cursor = job?.cursor ?? { pageNumber: 1 };
+  const processedCount = job?.processedCount ?? 0;
+  const batchNumber = job?.batchNumber ?? 1;
+  const batchProcessed = job?.batchProcessed ?? 0;
+  const isRunning = job?.status === 'running';
+  const hasMorePages = job ? isResumable(job) : true;
+  const currentPage = cursor.pageNumber;
+  const jobConfig = job?.config ?? scraperConfig;
+  const fields = useMemo(() => getSchema(jobConfig), [jobConfig]);
+  // The job's totals, which cover entries dropped from the log, plus this session's own messages
+  const logCounts = useMemo(() => {
+    const local = countLogLevels(log.filter(entry => !entry.jobId));
+    if (!job) return local;
+    return { info: job.logCounts.info + local.info, warn: job.logCounts.warn + local.warn, error: job.logCounts.error + local.error };
+  }, [job, log]);
+  const activeJobId = job?.id;
+  const jobUpdatedAt = job?.updatedAt;
+  
+  // Count records per state, or per filled-in field when the schema has no state;
+  // derived from the data so merges never inflate it
+  const byState = fields.some(field => field.key === 'state');
+  const summary = useMemo(() => {
+    if (charityData.length === 0) return [];
+    if (!byState) {
+      return fields.map(field => [
+        field.label,
+        charityData.filter(charity => hasValue(getFieldValue(charity, field.key))).length
+      ] as [string, number]);
+    }
+    const stateCount: {[key: string]: number} = {};
+    charityData.forEach(charity => {
+      const state = charity.state || 'Unknown';
+      stateCount[state] = (stateCount[state] || 0) + 1;
+    });
+    return Object.entries(stateCount).sort(([a], [b]) => a.localeCompare(b));
+  }, [charityData, fields, byState]);
+  const quality = useMemo(() => summarizeQuality(charityData, fields), [charityData, fields]);
+  const nextPageUrl = cursor.url ?? buildPageUrl(jobConfig, cursor.pageNumber);
 
-  useEffect(() => {
-    // Load any saved data from localStorage
+  // Kept stable, like the helpers below, so effects and components using them don't run again
+  const addLogMessage = useCallback((message: string, event: Partial<LogEvent> = {}) => {
+    setLog(prev => appendLogEntry(prev, createLogEntry({ level: 'info', message, ...event })));
+  }, []);
+
+  // Log a failed request, with each problem the server listed
+  const reportError = useCallback((action: string, error: unknown) => {
+    addLogMessage(action, { level: 'error', error: errorDetails(error) });
+  }, [addLogMessage]);
+
+  // Make a job the open one
+  const showJob = useCallback((detail: JobDetail) => {
+    activeJobIdRef.current = detail.id;
+    setActiveJobId(detail.id);
+    setJob(detail);
+    setLog(detail.log);
+    setJobSettings(detail.settings);
+  }, []);
+
+  const loadJob = useCallback(async (id: string) => {
     try {
-      const savedData = localStorage.getItem('scrapedData');
-      if (savedData) {
-        const parsedData = JSON.parse(savedData);
-        setCharityData(parsedData);
-        
-        // Calculate states count
-        const stateCount: {[key: string]: number} = {};
-        parsedData.forEach((charity: Charity) => {
-          const state = charity.state || 'Unknown';
-          stateCount[state] = (stateCount[state] || 0) + 1;
-        });
-        setStates(stateCount);
-        
-        addLogMessage(`Loaded ${parsedData.length} items from local storage`);
-      }
+      showJob(await fetchJob(id));
     } catch (error) {
-      console.error('Error loading data from localStorage:', error);
+      // A job deleted elsewhere just isn't reopened
+      if (!(error instanceof ApiError && error.status === 404)) reportError('Could not load the job', error);
+    }
+  }, [showJob, reportError]);
+
+  // Apply a pushed event to the job list and, when it is about the open job, to the open job
+  const handleJobEvent = useCallback((event: JobEvent) => {
+    const isActive = (id: string) => id === activeJobIdRef.current;
+    if (event.type === 'job') {
+      setJobs(prev => [event.job, ...prev.filter(item => item.id !== event.job.id)]);
+      if (isActive(event.job.id)) setJob(event.job);
+    } else if (event.type === 'log') {
+      if (isActive(event.jobId)) setLog(prev => appendLogEntry(prev, event.entry));
+    } else {
+      setJobs(prev => prev.filter(item => item.id !== event.jobId));
+      deleteLocalRecords(event.jobId).catch(error => console.error('Could not delete stored records:', error));
+      if (isActive(event.jobId)) {
+        activeJobIdRef.current = undefined;
+        setActiveJobId(null);
+        setJob(null);
+        setCharityData([]);
+      }
     }
   }, []);
 
-  // Save data to localStorage whenever it changes
-  useEffect(() => {
-    if (charityData.length > 0) {
-      localStorage.setItem('scrapedData', JSON.stringify(charityData));
+  useEffect(() => subscribeToJobEvents(handleJobEvent, setConnected), [handleJobEvent]);
+
+  // Move records older versions kept in localStorage to jobs on the server, once per visit. Records
+  // that cannot be imported stay in browser storage and are reported; a dataset that fails to move
+  // stays whole for the next visit, without the job created for it. Datasets saved without a job
+  // take the active profile and the default batch settings.
+  const migrateLegacyData = useCallback(async () => {
+    for (const dataset of findLegacyDatasets()) {
+      const config = dataset.config ?? getScraperConfig();
+      const fields = getSchema(config);
+      const problems = dataset.records.map(record => validateImportedRecord(record, fields));
+      const records = dataset.records.filter((_record, index) => problems[index].length === 0);
+      const rejected = dataset.records.filter((_record, index) => problems[index].length > 0);
+
+      if (records.length > 0) {
+        let created: JobDetail | null = null;
+        try {
+          created = await submitJob({ name: dataset.name, config, options: { settings: dataset.settings ?? defaultJobSettings } });
+          await importJobRecords(created.id, records, 'append');
+        } catch (error) {
+          reportError(`Could not move "${dataset.name}" from browser storage to the server`, error);
+          if (created) await removeJob(created.id).catch(reason => reportError(`Could not remove the unfinished job "${dataset.name}"`, reason));
+          continue;
+        }
+        if (rejected.length > 0) {
+          keepLegacyRecords(dataset, rejected);
+        } else {
+          removeLegacyDataset(dataset);
+        }
+        addLogMessage(`Moved ${records.length} records of "${dataset.name}" from browser storage to the server`);
+      }
+
+      if (rejected.length > 0) {
+        addLogMessage(
+          `${rejected.length} records of "${dataset.name}" could not be imported and stay in browser storage`
+            + ` (first problem: ${problems.find(list => list.length > 0)![0]})`,
+          { level: 'warn' }
+        );
+      }
     }
-  }, [charityData]);
+  }, [addLogMessage, reportError]);
+
+  // Load the job list whenever the event stream (re)connects, so nothing sent while
+  // disconnected is missed; the first time, reopen the job the UI last had open
+  useEffect(() => {
+    if (!connected) return;
+    migrationRef.current ??= migrateLegacyData();
+    migrationRef.current
+      .then(fetchJobs)
+      .then(list => {
+        setJobs(list);
+        // Records stored for jobs deleted while the app was closed
+        pruneLocalRecords(list.map(item => item.id)).catch(error => console.error('Could not prune stored records:', error));
+      })
+      .catch(error => reportError('Could not load jobs', error));
+    const id = activeJobIdRef.current ?? getActiveJobId();
+    if (id) loadJob(id);
+  }, [connected, migrateLegacyData, loadJob, reportError]);
 
-  const processNextPage = useCallback(async () => {
-    if (!isRunning || processedCount >= 1000) {
-      setIsProcessing(false);
+  // Sync the open job's records whenever it was saved, by a scraped page or an edit
+  useEffect(() => {
+    if (!activeJobId) return;
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      try {
+        const synced = await syncJobRecords(activeJobId, syncedRef.current);
+        // Another job may have been opened meanwhile
+        if (activeJobIdRef.current !== activeJobId) return;
+        syncedRef.current = synced;
+        setCharityData(synced.records);
+        setStoredAt({ jobId: synced.jobId, revision: synced.revision });
+      } catch (error) {
+        reportError('Could not load records', error);
+      }
+    });
+  }, [activeJobId, jobUpdatedAt, reportError]);
+
+  // Start a new job, or continue the open one
+  const startScraping = async () => {
+    // Refuse to start with a configuration that cannot work
+    const errors = [...(job ? [] : validateScraperConfig(scraperConfig)), ...validateJobSettings(jobSettings)];
+    if (errors.length > 0) {
+      errors.forEach(error => addLogMessage(`Configuration error: ${error}`, { level: 'error' }));
+      setShowSettings(true);
       return;
     }
-    
+
+    setIsSubmitting(true);
     try {
-      setIsProcessing(true);
-      addLogMessage(`Processing page ${currentPage}...`);
-      
-      // Fetch charity data from the current page
-      const { charities, hasMore } = await fetchCharityPage(currentPage);
-      
-      if (charities.length === 0) {
-        setHasMorePages(false);
-        setIsRunning(false);
-        setIsProcessing(false);
-        addLogMessage('No more items found. Scraping complete.');
+      if (!job) {
+        // Save the working configuration to the active profile and start the job with it
+        updateScraperConfig(scraperConfig);
+        const profile = getActiveProfile();
+        showJob(await submitJob({
+          name: profile.name,
+          config: scraperConfig,
+          options: { profileId: profile.id, settings: jobSettings },
+          start: true
+        }));
         return;
       }
-      
-      // Update state counts
-      setStates(prev => {
-        const newStates = { ...prev };
-        charities.forEach(charity => {
-          const state = charity.state || 'Unknown';
-          newStates[state] = (newStates[state] || 0) + 1;
-        });
-        return newStates;
-      });
-      
-      // Add to charity data
-      setCharityData(prev => [...prev, ...charities]);
-      
-      // Update current page
-      setCurrentPage(prev => prev + 1);
-      
-      // Update processed count
-      const newProcessedCount = processedCount + charities.length;
-      setProcessedCount(newProcessedCount > 1000 ? 1000 : newProcessedCount);
-      
-      addLogMessage(`Processed page ${currentPage}, found ${charities.length} new items`);
-      
-      // Check if we've reached the batch limit
-      if (newProcessedCount >= 1000) {
-        setIsRunning(false);
-        setIsProcessing(false);
-        addLogMessage('Batch complete. Click "Continue" to process the next batch.');
-        return;
+
+      if (JSON.stringify(scraperConfig) !== JSON.stringify(job.config)) {
+        addLogMessage('Continuing with the settings this job started with; start a new job to use the changed settings.');
       }
-      
-      // Check if there are more pages
-      setHasMorePages(hasMore);
-      if (!hasMore) {
-        setIsRunning(false);
-        setIsProcessing(false);
-        addLogMessage('No more items found. Scraping complete.');
-        return;
+      if (JSON.stringify(jobSettings) !== JSON.stringify(job.settings)) {
+        await updateJob(job.id, { settings: jobSettings });
       }
-      
-      // Process the next page after a delay
-      setTimeout(() => {
-        setIsProcessing(false);
-        processNextPage();
-      }, 1000);
+      setJob(await resumeJob(job.id));
     } catch (error) {
-      console.error('Error processing page:', error);
-      addLogMessage(`Error processing page ${currentPage}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      setIsRunning(false);
-      setIsProcessing(false);
+      reportError('Could not start the job', error);
+    } finally {
+      setIsSubmitting(false);
     }
-  }, [currentPage, processedCount, isRunning]);
+  };
 
-  // Start or continue scraping
-  const startScraping = useCallback(() => {
-    if (!hasMorePages && currentPage > 1) {
-      addLogMessage('No more items to scrape. All pages have been processed.');
-      return;
+  const pauseScraping = async () => {
+    if (!job) return;
+    try {
+      await pauseJob(job.id);
+    } catch (error) {
+      reportError('Could not pause the job', error);
     }
-    
-    // Update the scraper config with the current source URL
-    const newConfig: ScraperConfig = {
-      ...scraperConfig,
-      sourceUrl
-    };
-    
-    updateScraperConfig(newConfig);
-    setScraperConfig(newConfig);
-    addLogMessage(`Using source URL: ${sourceUrl}`);
-    
-    setIsRunning(true);
-    addLogMessage('Starting scraper...');
-    
-    // Start processing pages
-    processNextPage();
-  }, [hasMorePages, currentPage, processNextPage, sourceUrl, scraperConfig]);
-
-  // Effect to monitor isRunning state and trigger processing
-  useEffect(() => {
-    if (isRunning && !isProcessing) {
-      processNextPage();
+  };
+
+  const cancelScraping = async () => {
+    if (!job || !window.confirm(`Cancel "${job.name}"? Its records are kept, but it cannot be continued.`)) return;
+    try {
+      await cancelJob(job.id);
+    } catch (error) {
+      reportError('Could not cancel the job', error);
     }
-  }, [isRunning, isProcessing, processNextPage]);
+  };
+
+  // Leave the open job in the job list (running jobs carry on) and set up a new one
+  const startNewJob = () => {
+    activeJobIdRef.current = undefined;
+    setActiveJobId(null);
+    setJob(null);
+    setCharityData([]);
+    setLog([createLogEntry({ level: 'info', message: READY_MESSAGE })]);
+    setJobSettings(defaultJobSettings);
+  };
 
-  const pauseScraping = () => {
-    setIsRunning(false);
-    addLogMessage('Scraper paused. Click "Continue" to resume.');
+  const updateJobSettings = (changes: Partial<JobSettings>) => {
+    setJobSettings(prev => ({ ...prev, ...changes }));
   };
 
-  const resetScraper = () => {
-    if (window.confirm('Are you sure you want to reset? This will clear all collected data.')) {
-      setIsRunning(false);
-      setCurrentPage(1);
-      setProcessedCount(0);
-      setLog([]);
-      setStates({});
-      setCharityData([]);
-      setHasMorePages(true);
-      setIsProcessing(false);
-      localStorage.removeItem('scrapedData');
-      addLogMessage('Scraper reset. Ready to start.');
+  // Parse an optional numeric input, treating an empty box as "not set"
+  const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const openJob = (selected: JobSummary) => {
+    loadJob(selected.id);
+  };
+
+  const deleteSelectedJob = async (selected: JobSummary) => {
+    try {
+      await removeJob(selected.id);
+    } catch (error) {
+      reportError('Could not delete the job', error);
     }
   };
 
-  const exportToCSV = useCallback(() => {
+  const archiveJob = async (selected: JobSummary, archived: boolean) => {
+    try {
+      await updateJob(selected.id, { archived });
+    } catch (error) {
+      reportError('Could not archive the job', error);
+    }
+  };
+
+  // Bring imported records into the open job, or into a new job created for them
+  const importRecords = async (records: Charity[], mode: ImportMode, fileName: string): Promise<boolean> => {
+    try {
+      let target = job;
+      if (!target) {
+        const detail = await submitJob({ name: `Import of ${fileName}`, config: scraperConfig, options: { settings: jobSettings } });
+        showJob(detail);
+        target = detail;
+      }
+      const { total } = await importJobRecords(target.id, records, mode);
+      addLogMessage(`Imported ${records.length} records from ${fileName}; the job now has ${total} records`);
+      return true;
+    } catch (error) {
+      reportError('Could not import the records', error);
+      return false;
+    }
+  };
+
+  const editRecord = async (index: number, changes: RecordChanges) => {
+    if (!job) return;
+    try {
+      const updated = await saveRecordEdit(job.id, index, changes);
+      setCharityData(prev => prev.map((record, position) => (position === index ? updated : record)));
+      setStoredAt(null);
+    } catch (error) {
+      reportError('Could not save the edit', error);
+    }
+  };
+
+  const deleteRecords = async (indexes: number[]) => {
+    if (!job) return;
+    try {
+      await deleteJobRecords(job.id, indexes);
+    } catch (error) {
+      reportError('Could not delete records', error);
+    }
+  };
+
+  // Look up the open job's records in a state from IndexedDB, while it holds the records shown
+  const findStatePositions = useCallback(async (state: string) => {
+    if (!storedAt || storedAt.jobId !== activeJobId) return null;
+    try {
+      const rows = await findLocalRecords(storedAt.jobId, 'state', state, storedAt.revision);
+      return rows && rows.map(row => row.index);
+    } catch (error) {
+      console.error('Could not look records up in IndexedDB:', error);
+      return null;
+    }
+  }, [storedAt, activeJobId]);
+
+  // Download records in the format and columns chosen in the export settings
+  const downloadRecords = (records: Charity[], baseName: string): boolean =>
+    downloadExport(records.length, baseName, (name, settings) => exportRecords(records, name, fields, settings));
+
+  // Download only the changes since an earlier run, led by what changed in each record
+  const downloadChanges = (changes: RecordChange[]) => {
+    downloadExport(changes.length, 'scraped_data_changes', (name, settings) => exportChanges(changes, name, fields, settings));
+  };
+
+  // Build and download an export once the export settings are valid, logging how many items it has
+  const downloadExport = (total: number, baseName: string, build: (name: string, settings: ExportSettings) => ExportFile): boolean => {
+    const settings = getExportSettings();
+    const errors = validateExportSettings(settings, fields);
+    if (errors.length > 0) {
+      errors.forEach(error => addLogMessage(`Export settings error: ${error}`, { level: 'error' }));
+      setShowSettings(true);
+      return false;
+    }
+
+    const file = build(`${baseName}_${new Date().toISOString().split('T')[0]}`, settings);
+    downloadFile(file.data, file.filename, file.mimeType);
+    const left = total - file.count;
+    addLogMessage(`Exported ${file.count} items to ${exportFormats[settings.format].label}${left > 0 ? ` (${left} left out by the quality filter)` : ''}`);
+    return true;
+  };
+
+  const exportSelected = (records: Charity[]) => {
+    downloadRecords(records, 'scraped_data_selected');
+  };
+
+  const exportToFile = () => {
+    if (charityData.length === 0) {
+      addLogMessage('No data to export', { level: 'warn' });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      downloadRecords(charityData, 'scraped_data');
+    } catch (error) {
+      addLogMessage('Error exporting data', { level: 'error', error: errorDetails(error) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportToSheets = useCallback(async () => {
     if (charityData.length === 0) {
-      addLogMessage('No data to export');
+      addLogMessage('No data to export', { level: 'warn' });
+      return;
+    }
+
+    const settings = getSheetsSettings();
+    if (!settings.spreadsheetId) {
+      addLogMessage('Set a spreadsheet ID in Settings before exporting to Google Sheets', { level: 'warn' });
+      setShowSettings(true);
       return;
     }
 
+    const token = window.prompt('Paste an OAuth access token with the spreadsheets scope (leave blank for a local stand-in server):');
+    if (token === null) return;
+
     setIsExporting(true);
-    addLogMessage('Preparing CSV export...');
+    addLogMessage(`Exporting ${charityData.length} items to Google Sheets...`);
 
     try {
-      // Sort charities alphabetically by name
-      const sortedCharities = [...charityData].sort((a, b) => 
-        a.name.localeCompare(b.name)
+      const result = await exportToGoogleSheets(
+        charityData,
+        { ...settings, getAccessToken: token ? async () => token.trim() : undefined },
+        fields,
+        (written, total) => addLogMessage(`Wrote ${written} of ${total} rows to Google Sheets`)
       );
-      
-      // Create CSV content
-      const headers = ['Name', 'Address', 'Website', 'Email', 'State'];
-      const csvContent = [
-        headers.join(','),
-        ...sortedCharities.map(charity => 
-          [
-            `"${charity.name.replace(/"/g, '""')}"`,
-            `"${charity.address.replace(/"/g, '""')}"`,
-            `"${charity.website.replace(/"/g, '""')}"`,
-            `"${charity.email?.replace(/"/g, '""') || ''}"`,
-            `"${charity.state}"`
-          ].join(',')
-        )
-      ].join('\n');
-      
-      // Create download link
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `scraped_data_${new Date().toISOString().split('T')[0]}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      addLogMessage(`Exported ${sortedCharities.length} items to CSV`);
-      setIsExporting(false);
-    } catch (error: any) {
-      addLogMessage(`Error exporting data: ${error.message}`);
+      if (result.tabsCreated.length > 0) {
+        addLogMessage(`Created tabs: ${result.tabsCreated.join(', ')}`);
+      }
+      addLogMessage(`Google Sheets export complete: ${result.inserted} rows added, ${result.updated} rows updated`);
+    } catch (error) {
+      addLogMessage('Error exporting to Google Sheets', { level: 'error', error: errorDetails(error) });
+    } finally {
       setIsExporting(false);
     }
-  }, [charityData]);
+  }, [charityData, fields, addLogMessage]);
 
   return (
     <div className="min-h-screen bg-gray-100 p-6">
@@ -242,95 +495,54 @@ function App() {
               </button>
               
               <button 
-                onClick={exportToCSV}
+                onClick={() => setShowImport(!showImport)}
+                className="bg-white border border-blue-500 text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-md flex items-center"
+              >
+                <Upload size={18} className="mr-2" />
+                Import
+              </button>
+              
+              <button 
+                onClick={exportToFile}
                 disabled={isExporting || charityData.length === 0}
                 className={`bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md flex items-center ${(isExporting || charityData.length === 0) ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 <Download size={18} className="mr-2" />
-                {isExporting ? 'Exporting...' : 'Export CSV'}
+                {isExporting ? 'Exporting...' : 'Export'}
               </button>
             </div>
           </div>
         </header>
         
-        {showSettings && (
-          <div className="bg-white shadow-md rounded-lg p-6 mb-6">
-            <h2 className="text-xl font-semibold text-gray-800 mb-4">Advanced Settings</h2>
-            
-            <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <AlertCircle className="h-5 w-5 text-yellow-400" />
-                </div>
-                <div className="ml-3">
-                  <p className="text-sm text-yellow-700">
-                    Note: For demonstration purposes, this tool uses mock data instead of actually scraping websites.
-                  </p>
-                </div>
-              </div>
-            </div>
-            
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                CSS Selectors
-              </label>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="itemsSelector" className="block text-xs text-gray-500 mb-1">
-                    Items Selector
-                  </label>
-                  <input
-                    type="text"
-                    id="itemsSelector"
-                    value={scraperConfig.selectors.items}
-                    readOnly
-                    className="w-full p-2 border border-gray-300 rounded-md bg-gray-50"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="nameSelector" className="block text-xs text-gray-500 mb-1">
-                    Name Selector
-                  </label>
-                  <input
-                    type="text"
-                    id="nameSelector"
-                    value={scraperConfig.selectors.name}
-                    readOnly
-                    className="w-full p-2 border border-gray-300 rounded-md bg-gray-50"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="addressSelector" className="block text-xs text-gray-500 mb-1">
-                    Address Selector
-                  </label>
-                  <input
-                    type="text"
-                    id="addressSelector"
-                    value={scraperConfig.selectors.address}
-                    readOnly
-                    className="w-full p-2 border border-gray-300 rounded-md bg-gray-50"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="websiteSelector" className="block text-xs text-gray-500 mb-1">
-                    Website Selector
-                  </label>
-                  <input
-                    type="text"
-                    id="websiteSelector"
-                    value={scraperConfig.selectors.website}
-                    readOnly
-                    className="w-full p-2 border border-gray-300 rounded-md bg-gray-50"
-                  />
-                </div>
-              </div>
-              <p className="text-xs text-gray-500 mt-2">
-                These selectors are used to extract data from the web pages. In a full version, these would be editable.
-              </p>
-            </div>
+        {!connected && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 mb-6 flex items-center">
+            <AlertCircle size={18} className="mr-2 flex-shrink-0" />
+            <span>
+              Cannot reach the scraping server. Start it with <code>npm run server</code>; this page reconnects automatically.
+            </span>
           </div>
         )}
         
+        {showImport && (
+          <ImportPanel
+            recordCount={charityData.length}
+            hasJob={Boolean(job)}
+            fields={fields}
+            editable={!isRunning}
+            onImport={importRecords}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+        
+        {showSettings && (
+          <SettingsPanel
+            config={scraperConfig}
+            isRunning={isRunning}
+            onConfigChange={setScraperConfig}
+            onLog={addLogMessage}
+          />
+        )}
+        
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
             <div className="bg-white shadow-md rounded-lg p-6 mb-6">
@@ -341,11 +553,11 @@ function App() {
                   {!isRunning ? (
                     <button 
                       onClick={startScraping}
-                      disabled={(!hasMorePages && currentPage > 1) || isProcessing}
-                      className={`bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md flex items-center ${((!hasMorePages && currentPage > 1) || isProcessing) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      disabled={!hasMorePages || isSubmitting}
+                      className={`bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md flex items-center ${(!hasMorePages || isSubmitting) ? 'opacity-50 cursor-not-allowed' : ''}`}
                     >
                       <Play size={18} className="mr-2" />
-                      {processedCount > 0 && processedCount < 1000 ? 'Continue' : 'Start'}
+                      {processedCount > 0 ? 'Continue' : 'Start'}
                     </button>
                   ) : (
                     <button 
@@ -356,13 +568,22 @@ function App() {
                       Pause
                     </button>
                   )}
+                  {job && hasMorePages && (
+                    <button 
+                      onClick={cancelScraping}
+                      className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md flex items-center"
+                    >
+                      <XCircle size={18} className="mr-2" />
+                      Cancel
+                    </button>
+                  )}
                   <button 
-                    onClick={resetScraper}
-                    disabled={isProcessing}
-                    className={`bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-md flex items-center ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    onClick={startNewJob}
+                    disabled={isSubmitting}
+                    className={`bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md flex items-center ${isSubmitting ? 'opacity-50 cursor-not-allowed' : ''}`}
                   >
-                    <RefreshCw size={18} className="mr-2" />
-                    Reset
+                    <Plus size={18} className="mr-2" />
+                    New Job
                   </button>
                 </div>
               </div>
@@ -379,39 +600,125 @@ function App() {
                     <input
                       type="text"
                       id="sourceUrl"
-                      value={sourceUrl}
-                      onChange={(e) => setSourceUrl(e.target.value)}
-                      placeholder="https://example.com/page="
+                      value={scraperConfig.sourceUrl}
+                      onChange={(e) => setScraperConfig({ ...scraperConfig, sourceUrl: e.target.value })}
+                      placeholder="https://example.com/search?page={page}"
                       className="block w-full pl-10 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
                       disabled={isRunning}
                     />
                   </div>
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  Enter the URL to scrape. The tool will append page numbers to this URL.
+                  Enter the URL to scrape. Put {'{page}'} or {'{offset}'} where the page position goes, or leave it out to append page numbers.
                 </p>
               </div>
               
+              <div className="mb-6">
+                <p className="block text-sm font-medium text-gray-700 mb-2">Batches</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="batchSize" className="block text-xs text-gray-500 mb-1">
+                      Items Per Batch
+                    </label>
+                    <input
+                      type="number"
+                      id="batchSize"
+                      min={1}
+                      value={jobSettings.batchSize}
+                      onChange={(e) => updateJobSettings({ batchSize: Number(e.target.value) })}
+                      disabled={isRunning}
+                      className="w-full p-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="maxItems" className="block text-xs text-gray-500 mb-1">
+                      Overall Item Cap (blank for none)
+                    </label>
+                    <input
+                      type="number"
+                      id="maxItems"
+                      min={1}
+                      value={jobSettings.maxItems ?? ''}
+                      onChange={(e) => updateJobSettings({ maxItems: optionalNumber(e.target.value) })}
+                      disabled={isRunning}
+                      className="w-full p-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="batchDelay" className="block text-xs text-gray-500 mb-1">
+                      Pause Between Batches (seconds)
+                    </label>
+                    <input
+                      type="number"
+                      id="batchDelay"
+                      min={0}
+                      value={jobSettings.batchDelayMs / 1000}
+                      onChange={(e) => updateJobSettings({ batchDelayMs: Number(e.target.value) * 1000 })}
+                      disabled={isRunning || !jobSettings.untilExhausted}
+                      className="w-full p-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center text-sm text-gray-700 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={jobSettings.untilExhausted}
+                    onChange={(e) => updateJobSettings({ untilExhausted: e.target.checked })}
+                    disabled={isRunning}
+                    className="mr-2"
+                  />
+                  Run until exhausted (start the next batch automatically)
+                </label>
+              </div>
+              
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="bg-gray-50 p-4 rounded-md">
                   <p className="text-sm text-gray-500">Current Page</p>
                   <p className="text-2xl font-bold">{currentPage}</p>
+                  {jobConfig.source === 'live' && hasMorePages && (
+                    <p className="text-xs text-gray-500 mt-1 truncate" title={nextPageUrl}>
+                      Next: {nextPageUrl}
+                    </p>
+                  )}
                 </div>
                 <div className="bg-gray-50 p-4 rounded-md">
-                  <p className="text-sm text-gray-500">Processed Items</p>
-                  <p className="text-2xl font-bold">{processedCount} / 1000</p>
+                  <p className="text-sm text-gray-500">Batch {batchNumber}</p>
+                  <p className="text-2xl font-bold">{batchProcessed} / {jobSettings.batchSize}</p>
                 </div>
               </div>
               
               <div className="mb-4">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>Batch progress</span>
+                  <span>{Math.min(100, Math.round((batchProcessed / jobSettings.batchSize) * 100))}%</span>
+                </div>
                 <div className="w-full bg-gray-200 rounded-full h-4">
                   <div 
                     className="bg-blue-500 h-4 rounded-full transition-all duration-500"
-                    style={{ width: `${(processedCount / 1000) * 100}%` }}
+                    style={{ width: `${Math.min(100, (batchProcessed / jobSettings.batchSize) * 100)}%` }}
                   ></div>
                 </div>
               </div>
               
+              <div className="mb-4">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>Overall progress</span>
+                  <span>
+                    {processedCount} items processed
+                    {jobSettings.maxItems !== undefined && ` of ${jobSettings.maxItems}`}
+                    {' '}in {batchNumber} {batchNumber === 1 ? 'batch' : 'batches'}
+                  </span>
+                </div>
+                {jobSettings.maxItems !== undefined && (
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div 
+                      className="bg-green-500 h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${Math.min(100, (processedCount / jobSettings.maxItems) * 100)}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
+              
               <div className="flex items-center justify-between">
                 <div className="flex items-center text-sm text-gray-500">
                   <Database size={16} className="mr-2" />
@@ -420,7 +727,7 @@ function App() {
                 
                 {charityData.length > 0 && (
                   <button 
-                    onClick={exportToCSV}
+                    onClick={exportToFile}
                     disabled={isExporting}
                     className={`text-sm text-blue-600 hover:text-blue-800 flex items-center ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
                   >
@@ -431,39 +738,35 @@ function App() {
               </div>
             </div>
             
-            <div className="bg-white shadow-md rounded-lg p-6">
-              <h2 className="text-xl font-semibold text-gray-800 mb-4">Log</h2>
-              <div className="bg-gray-900 text-gray-200 p-4 rounded-md h-64 overflow-y-auto font-mono text-sm">
-                {log.length > 0 ? (
-                  log.map((message, index) => (
-                    <div key={index} className="mb-1">{message}</div>
-                  ))
-                ) : (
-                  <div className="text-gray-500">No log messages yet. Start the scraper to see activity.</div>
-                )}
-              </div>
-            </div>
+            <LogPanel entries={log} counts={logCounts} jobId={job?.id} />
           </div>
           
-          <div className="bg-white shadow-md rounded-lg p-6">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center">
-                <Database size={20} className="mr-2 text-blue-500" />
-                <h2 className="text-xl font-semibold text-gray-800">Data Summary</h2>
-              </div>
-              
-              {Object.keys(states).length > 0 && (
-                <div className="text-sm font-medium text-gray-600">
-                  {Object.keys(states).length} categories
+          <div>
+            <JobList
+              jobs={jobs}
+              activeJobId={activeJobId}
+              onOpen={openJob}
+              onDelete={deleteSelectedJob}
+              onArchive={archiveJob}
+            />
+
+            <div className="bg-white shadow-md rounded-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center">
+                  <Database size={20} className="mr-2 text-blue-500" />
+                  <h2 className="text-xl font-semibold text-gray-800">Data Summary</h2>
                 </div>
-              )}
-            </div>
+              
+                {summary.length > 0 && (
+                  <div className="text-sm font-medium text-gray-600">
+                    {byState ? `${summary.length} categories` : `${charityData.length} records`}
+                  </div>
+                )}
+              </div>
             
-            {Object.keys(states).length > 0 ? (
-              <div className="space-y-3 max-h-96 overflow-y-auto">
-                {Object.entries(states)
-                  .sort(([a], [b]) => a.localeCompare(b))
-                  .map(([category, count]) => (
+              {summary.length > 0 ? (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {summary.map(([category, count]) => (
                     <div key={category} className="flex items-center justify-between">
                       <div className="flex items-center">
                         <div className="w-8 h-8 bg-blue-100 text-blue-800 rounded-md flex items-center justify-center font-bold">
@@ -472,32 +775,58 @@ function App() {
                         <span className="ml-3 text-gray-700">{category}</span>
                       </div>
                       <span className="bg-gray-100 px-2 py-1 rounded-md text-gray-700 font-medium">
-                        {count} items
+                        {byState ? `${count} items` : `${count} filled`}
                       </span>
                     </div>
                   ))}
-              </div>
-            ) : (
-              <div className="text-center py-8 text-gray-500">
-                <p>No data collected yet</p>
-                <p className="text-sm mt-2">Start the scraper to collect data</p>
-              </div>
-            )}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <p>No data collected yet</p>
+                  <p className="text-sm mt-2">Start the scraper to collect data</p>
+                </div>
+              )}
             
-            {Object.keys(states).length > 0 && (
-              <div className="mt-6 pt-4 border-t border-gray-200">
-                <button 
-                  onClick={exportToCSV}
-                  disabled={isExporting}
-                  className={`w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded-md flex items-center justify-center ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
-                >
-                  <Download size={18} className="mr-2" />
-                  Export All Data
-                </button>
-              </div>
-            )}
+              {summary.length > 0 && <QualityReport report={quality} />}
+            
+              {summary.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-gray-200">
+                  <button 
+                    onClick={exportToFile}
+                    disabled={isExporting}
+                    className={`w-full bg-green-600 hover:bg-green-700 text-white py-2 rounded-md flex items-center justify-center ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <Download size={18} className="mr-2" />
+                    Export All Data
+                  </button>
+                  <button 
+                    onClick={exportToSheets}
+                    disabled={isExporting}
+                    className={`w-full mt-2 bg-white border border-green-600 text-green-700 hover:bg-green-50 py-2 rounded-md flex items-center justify-center ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <FileSpreadsheet size={18} className="mr-2" />
+                    Export to Google Sheets
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
         </div>
+        
+        <RecordTable
+          key={activeJobId ?? 'new'}
+          records={charityData}
+          fields={fields}
+          editable={Boolean(job) && !isRunning}
+          onEdit={editRecord}
+          onDelete={deleteRecords}
+          onExportSelected={exportSelected}
+          findStatePositions={findStatePositions}
+        />
+
+        {job && jobs.some(other => other.id !== job.id) && (
+          <ComparisonPanel key={job.id} job={job} jobs={jobs} records={charityData} fields={fields} onExport={downloadChanges} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,199 @@
+// Types
+export interface ParsedAddress {
+  street: string;
+  city: string;
+  // Two-letter US state or territory code, the country name for non-US addresses, or 'Unknown'
+  state: string;
+  zip: string;
+  country: string;
+  // True when the state came from the ZIP code or a loose name match rather than the state position
+  stateInferred: boolean;
+}
+
+// US states, DC, territories and military "states", by code
+const stateNames: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa',
+  KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland',
+  MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi', MO: 'Missouri',
+  MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey',
+  NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio',
+  OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina',
+  SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+  DC: 'District of Columbia',
+  PR: 'Puerto Rico', GU: 'Guam', VI: 'U.S. Virgin Islands', AS: 'American Samoa', MP: 'Northern Mariana Islands',
+  AA: 'Armed Forces Americas', AE: 'Armed Forces Europe', AP: 'Armed Forces Pacific'
+};
+
+// Alternative spellings of state and territory names
+const stateAliases: Record<string, string> = {
+  'virgin islands': 'VI', 'u s virgin islands': 'VI', 'washington d c': 'DC'
+};
+
+// First three ZIP digits for each state, as inclusive ranges
+const zipPrefixes: Record<string, [number, number][]> = {
+  AL: [[350, 369]], AK: [[995, 999]], AZ: [[850, 865]], AR: [[716, 729]], CA: [[900, 961]],
+  CO: [[800, 816]], CT: [[60, 69]], DE: [[197, 199]], DC: [[200, 200], [202, 205], [569, 569]],
+  FL: [[320, 339], [341, 349]], GA: [[300, 319], [398, 399]], HI: [[967, 968]], ID: [[832, 838]],
+  IL: [[600, 629]], IN: [[460, 479]], IA: [[500, 528]], KS: [[660, 679]], KY: [[400, 427]],
+  LA: [[700, 714]], ME: [[39, 49]], MD: [[206, 219]], MA: [[10, 27], [55, 55]], MI: [[480, 499]],
+  MN: [[550, 567]], MS: [[386, 397]], MO: [[630, 658]], MT: [[590, 599]], NE: [[680, 693]],
+  NV: [[889, 898]], NH: [[30, 38]], NJ: [[70, 89]], NM: [[870, 884]], NY: [[5, 5], [100, 149]],
+  NC: [[270, 289]], ND: [[580, 588]], OH: [[430, 459]], OK: [[730, 749]], OR: [[970, 979]],
+  PA: [[150, 196]], RI: [[28, 29]], SC: [[290, 299]], SD: [[570, 577]], TN: [[370, 385]],
+  TX: [[750, 799], [885, 885]], UT: [[840, 847]], VT: [[50, 54], [56, 59]], VA: [[201, 201], [220, 246]],
+  WA: [[980, 994]], WV: [[247, 268]], WI: [[530, 549]], WY: [[820, 831]],
+  PR: [[6, 7], [9, 9]], VI: [[8, 8]], GU: [[969, 969]], AS: [[967, 967]], MP: [[969, 969]],
+  AA: [[340, 340]], AE: [[90, 98]], AP: [[962, 966]]
+};
+
+const usCountryNames = new Set(['us', 'usa', 'u s', 'u s a', 'united states', 'united states of america']);
+
+// Countries recognized at the end of an address
+const countryNames = [
+  'Canada', 'Mexico', 'United Kingdom', 'UK', 'England', 'Scotland', 'Wales', 'Ireland', 'France',
+  'Germany', 'Spain', 'Portugal', 'Italy', 'Netherlands', 'Belgium', 'Switzerland', 'Austria',
+  'Sweden', 'Norway', 'Denmark', 'Finland', 'Poland', 'Ukraine', 'Israel', 'India', 'China',
+  'Japan', 'South Korea', 'Australia', 'New Zealand', 'South Africa', 'Kenya', 'Nigeria',
+  'Brazil', 'Argentina', 'Chile', 'Colombia', 'Peru', 'Philippines', 'Singapore'
+];
+
+// State names longest first, so "West Virginia" wins over "Virginia"
+const stateNameEntries = [
+  ...Object.entries(stateNames).map(([code, name]) => [name.toLowerCase().replace(/\./g, ''), code]),
+  ...Object.entries(stateAliases)
+].sort(([a], [b]) => b.length - a.length);
+
+// Lowercase and strip punctuation for name comparisons
+function simplify(text: string): string {
+  return text.toLowerCase().replace(/[.]/g, '').replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Escape text for use inside a regular expression
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Look up the state a ZIP code belongs to, when its prefix is unambiguous
+export function stateForZip(zip: string): string | null {
+  const prefix = Number(zip.slice(0, 3));
+  if (zip.length < 5 || Number.isNaN(prefix)) return null;
+
+  const matches = Object.entries(zipPrefixes)
+    .filter(([, ranges]) => ranges.some(([from, to]) => prefix >= from && prefix <= to))
+    .map(([code]) => code);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// Check whether a ZIP code can belong to a state
+export function zipMatchesState(zip: string, state: string): boolean {
+  const prefix = Number(zip.slice(0, 3));
+  return (zipPrefixes[state] ?? []).some(([from, to]) => prefix >= from && prefix <= to);
+}
+
+// Get the full name of a state code
+export function stateName(code: string): string | undefined {
+  return stateNames[code];
+}
+
+// Find a state name as a whole phrase at the end of the text (or anywhere when `anywhere` is set)
+function findStateName(text: string, anywhere: boolean): { code: string; index: number } | null {
+  for (const [name, code] of stateNameEntries) {
+    const words = name.split(' ').map(escapeRegExp).join('[\\s.,]+');
+    const pattern = new RegExp(`(?:^|[\\s,])(${words})\\.?${anywhere ? '(?=[\\s,]|$)' : '$'}`, 'i');
+    const match = text.match(pattern);
+    if (match) return { code, index: (match.index ?? 0) + match[0].indexOf(match[1]) };
+  }
+  return null;
+}
+
+// Split what is left before the state into street and city
+function splitStreetAndCity(rest: string): { street: string; city: string } {
+  const parts = rest.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return { street: '', city: '' };
+  if (parts.length === 1) return { street: parts[0], city: '' };
+  return { street: parts.slice(0, -1).join(', '), city: parts[parts.length - 1] };
+}
+
+// Parse a free-text postal address into its parts
+export function parseAddress(raw: string): ParsedAddress {
+  const empty: ParsedAddress = { street: '', city: '', state: 'Unknown', zip: '', country: '', stateInferred: false };
+  let rest = (raw || '').replace(/\s*\n\s*/g, ', ').replace(/\s+/g, ' ').trim().replace(/,\s*$/, '');
+  if (!rest) return empty;
+
+  // Country, when given as the last comma-separated part
+  let country = '';
+  const lastComma = rest.lastIndexOf(',');
+  const lastPart = simplify(lastComma >= 0 ? rest.slice(lastComma + 1) : '');
+  if (usCountryNames.has(lastPart)) {
+    country = 'United States';
+    rest = rest.slice(0, lastComma).trim();
+  } else {
+    const foreign = countryNames.find(name => simplify(name) === lastPart);
+    if (foreign) {
+      const { street, city } = splitStreetAndCity(rest.slice(0, lastComma));
+      return { street, city, state: foreign, zip: '', country: foreign, stateInferred: false };
+    }
+  }
+
+  // ZIP or ZIP+4 at the end
+  let zip = '';
+  const zipMatch = rest.match(/[\s,]+(\d{5})(?:[-\s](\d{4}))?$/);
+  if (zipMatch) {
+    zip = zipMatch[2] ? `${zipMatch[1]}-${zipMatch[2]}` : zipMatch[1];
+    rest = rest.slice(0, zipMatch.index).trim();
+  }
+
+  // State code or name just before the ZIP (or at the end)
+  let state = '';
+  let stateInferred = false;
+  const codeMatch = rest.match(/(?:^|[\s,])([A-Za-z]{2})\.?$/);
+  const code = codeMatch?.[1].toUpperCase();
+  // Lowercase codes are only trusted right before a ZIP, since words like "in" or "or" end many addresses
+  if (code && stateNames[code] && (zip || codeMatch![1] === code)) {
+    state = code;
+    rest = rest.slice(0, codeMatch!.index).trim();
+  } else {
+    const named = findStateName(rest, false);
+    if (named) {
+      state = named.code;
+      rest = rest.slice(0, named.index).trim();
+    }
+  }
+  rest = rest.replace(/,\s*$/, '');
+
+  // The ZIP prefix settles conflicts and fills in a missing state
+  if (zip) {
+    const zipState = stateForZip(zip);
+    if (state && !zipMatchesState(zip, state) && zipState) {
+      state = zipState;
+      stateInferred = true;
+    } else if (!state && zipState) {
+      state = zipState;
+      stateInferred = true;
+    }
+  }
+
+  // Last resort: a state name anywhere in the text
+  if (!state) {
+    const named = findStateName(rest, true);
+    if (named) {
+      state = named.code;
+      stateInferred = true;
+    }
+  }
+
+  if (!state && !zip) {
+    return { ...empty, ...splitStreetAndCity(rest), country };
+  }
+
+  return {
+    ...splitStreetAndCity(rest),
+    state: state || 'Unknown',
+    zip,
+    country: country || 'United States',
+    stateInferred
+  };
+}
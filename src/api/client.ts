@@ -0,0 +1,148 @@
+import axios from 'axios';
+import type { Charity, ScraperConfig, SelectorTestResult } from './scraper';
+import type { JobChanges, JobDetail, JobEvent, JobSummary, NewJobRequest, RecordDelta } from './jobs';
+import type { EnrichmentSettings, EnrichmentStatus } from './enrichment';
+import type { RecordChanges } from './records';
+import type { ImportMode } from './imports';
+
+// Constants
+// The Vite dev server proxies this path to the scraping server
+const API_BASE = '/api';
+
+// Types
+export interface RecordPage {
+  total: number;
+  records: Charity[];
+}
+
+// An error answered by the scraping server, with its list of individual problems
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public details: string[] = []) {
+    super(message);
+  }
+}
+
+// Send a request to the scraping server, turning failures into ApiErrors with readable messages
+async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  try {
+    const response = await axios.request<T>({ method, url: `${API_BASE}${path}`, data: body });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        throw new ApiError('Cannot reach the scraping server. Start it with "npm run server".');
+      }
+      const data = error.response.data as { error?: string; details?: string[] } | undefined;
+      throw new ApiError(data?.error ?? error.message, error.response.status, data?.details ?? []);
+    }
+    throw error;
+  }
+}
+
+// List saved jobs, most recently updated first
+export function fetchJobs(): Promise<JobSummary[]> {
+  return request('GET', '/jobs');
+}
+
+// Get a job with its log
+export function fetchJob(id: string): Promise<JobDetail> {
+  return request('GET', `/jobs/${encodeURIComponent(id)}`);
+}
+
+// Get a job's records, optionally one slice at a time
+export function fetchJobRecords(id: string, offset?: number, limit?: number): Promise<RecordPage> {
+  const params = new URLSearchParams();
+  if (offset !== undefined) params.set('offset', String(offset));
+  if (limit !== undefined) params.set('limit', String(limit));
+  const query = params.toString();
+  return request('GET', `/jobs/${encodeURIComponent(id)}/records${query ? `?${query}` : ''}`);
+}
+
+// Get the records of a job that changed after a revision, or all of them without one
+export function fetchRecordChanges(id: string, since?: number): Promise<RecordDelta> {
+  return request('GET', `/jobs/${encodeURIComponent(id)}/changes${since !== undefined ? `?since=${since}` : ''}`);
+}
+
+// Edit one record of a job, by its position in the dataset
+export function saveRecordEdit(id: string, index: number, changes: RecordChanges): Promise<Charity> {
+  return request('PATCH', `/jobs/${encodeURIComponent(id)}/records/${index}`, changes);
+}
+
+// Delete records of a job by position
+export function deleteJobRecords(id: string, indexes: number[]): Promise<{ total: number }> {
+  return request('DELETE', `/jobs/${encodeURIComponent(id)}/records`, { indexes });
+}
+
+// Add imported records to a job, or replace its records with them
+export function importJobRecords(id: string, records: Charity[], mode: ImportMode): Promise<{ total: number }> {
+  return request('POST', `/jobs/${encodeURIComponent(id)}/import`, { records, mode });
+}
+
+// Load a page on the server and try a profile's selectors on it, without saving the profile
+export function testSelectorsOnServer(config: ScraperConfig, url: string): Promise<SelectorTestResult> {
+  return request('POST', '/selector-test', { config, url });
+}
+
+// Create a job on the server
+export function submitJob(job: NewJobRequest): Promise<JobDetail> {
+  return request('POST', '/jobs', job);
+}
+
+// Rename, archive or change the settings of a job
+export function updateJob(id: string, changes: JobChanges): Promise<JobDetail> {
+  return request('PATCH', `/jobs/${encodeURIComponent(id)}`, changes);
+}
+
+// Delete a job and its records
+export function removeJob(id: string): Promise<void> {
+  return request('DELETE', `/jobs/${encodeURIComponent(id)}`);
+}
+
+// Start or continue a job
+export function resumeJob(id: string): Promise<JobDetail> {
+  return request('POST', `/jobs/${encodeURIComponent(id)}/resume`);
+}
+
+// Pause a running job; an unfinished page goes on from where it got to when the job continues
+export function pauseJob(id: string): Promise<JobDetail> {
+  return request('POST', `/jobs/${encodeURIComponent(id)}/pause`);
+}
+
+// Stop a job for good
+export function cancelJob(id: string): Promise<JobDetail> {
+  return request('POST', `/jobs/${encodeURIComponent(id)}/cancel`);
+}
+
+// Receive job events as they happen. The browser reconnects on its own after a dropped
+// connection; onConnectionChange reports when that happens. Returns a function that stops listening.
+export function subscribeToJobEvents(
+  onEvent: (event: JobEvent) => void,
+  onConnectionChange?: (connected: boolean) => void
+): () => void {
+  const source = new EventSource(`${API_BASE}/events`);
+  const handle = (message: MessageEvent<string>) => onEvent(JSON.parse(message.data) as JobEvent);
+  (['job', 'log', 'deleted'] as const).forEach(type => source.addEventListener(type, handle));
+  source.onopen = () => onConnectionChange?.(true);
+  source.onerror = () => onConnectionChange?.(false);
+  return () => source.close();
+}
+
+// Get enrichment settings, Hunter usage and cache size
+export function fetchEnrichmentStatus(): Promise<EnrichmentStatus> {
+  return request('GET', '/enrichment');
+}
+
+// Change enrichment settings
+export function saveEnrichmentSettings(changes: Partial<EnrichmentSettings>): Promise<EnrichmentStatus> {
+  return request('PATCH', '/enrichment', changes);
+}
+
+// Replace the server's Hunter usage count with what the Hunter account reports
+export function syncEnrichmentUsage(): Promise<EnrichmentStatus> {
+  return request('POST', '/enrichment/sync');
+}
+
+// Forget cached email lookups
+export function clearEnrichmentCache(): Promise<EnrichmentStatus> {
+  return request('DELETE', '/enrichment/cache');
+}
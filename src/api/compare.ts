@@ -0,0 +1,165 @@
+import type { Charity } from './scraper';
+import { SchemaField, formatFieldValue, getFieldValue } from './schema';
+import { identityKeys, normalizeName } from './dedupe';
+import { ExportFile, ExportSettings, exportColumns, exportRecords, getExportSettings } from './exports';
+
+// Types
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+// A field whose value differs between two runs
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RecordChange {
+  kind: ChangeKind;
+  // The record as it is now, or as it was for removed records
+  record: Charity;
+  // Differences from the earlier run; empty for added and removed records
+  fields: FieldChange[];
+}
+
+export interface DatasetComparison {
+  // Added and changed records in the current run's order, then removed ones
+  changes: RecordChange[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  // Changed records by the key of each field that changed
+  fieldCounts: Record<string, number>;
+}
+
+// Constants
+export const changeKinds: Record<ChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed'
+};
+
+// Columns put in front of the export of changes, stored in each record's extra values. Schema field
+// keys start with a letter, so these keys never overwrite a field's value.
+const changeColumns: SchemaField[] = [
+  { key: '__change', label: 'Change', kind: 'text', type: 'string', required: false },
+  { key: '__changedFields', label: 'Changed Fields', kind: 'text', type: 'string', required: false },
+  { key: '__previousValues', label: 'Previous Values', kind: 'text', type: 'string', required: false }
+];
+
+// Bring a value to the form it is compared in, so case, spacing and URL schemes don't count as changes
+function comparable(field: string, value: string): string {
+  const text = value.trim().replace(/\s+/g, ' ').toLowerCase();
+  return field === 'website' ? text.replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '') : text;
+}
+
+// The fields of the schema that differ between two versions of a record
+function diffRecords(before: Charity, after: Charity, fields: SchemaField[]): FieldChange[] {
+  return fields.flatMap(({ key, label }) => {
+    const previous = formatFieldValue(getFieldValue(before, key));
+    const current = formatFieldValue(getFieldValue(after, key));
+    return comparable(key, previous) === comparable(key, current) ? [] : [{ field: key, label, before: previous, after: current }];
+  });
+}
+
+// Count how often each name occurs
+function countNames(charities: Charity[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  charities.forEach(charity => {
+    const name = normalizeName(charity.name);
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return counts;
+}
+
+// Pair each current record with the earlier run's record of the same organization, by position.
+// Records are matched on the keys dedupe uses, then on a name that is unique in both runs, so an
+// organization whose website and address both changed is still seen as the same one.
+function matchRecords(baseline: Charity[], current: Charity[]): (number | undefined)[] {
+  const byKey = new Map<string, number>();
+  baseline.forEach((charity, position) => {
+    identityKeys(charity).forEach(key => {
+      if (!byKey.has(key)) byKey.set(key, position);
+    });
+  });
+
+  const used = new Set<number>();
+  const matches = current.map(charity => {
+    const match = identityKeys(charity).map(key => byKey.get(key)).find(position => position !== undefined && !used.has(position));
+    if (match !== undefined) used.add(match);
+    return match;
+  });
+
+  const baselineNames = countNames(baseline);
+  const currentNames = countNames(current);
+  const byName = new Map<string, number>();
+  baseline.forEach((charity, position) => {
+    const name = normalizeName(charity.name);
+    if (!used.has(position) && baselineNames.get(name) === 1) byName.set(name, position);
+  });
+  return matches.map((match, index) => {
+    if (match !== undefined) return match;
+    const name = normalizeName(current[index].name);
+    const position = currentNames.get(name) === 1 ? byName.get(name) : undefined;
+    if (position !== undefined) used.add(position);
+    return position;
+  });
+}
+
+// Compare two runs' records on the schema's fields
+export function compareDatasets(baseline: Charity[], current: Charity[], fields: SchemaField[]): DatasetComparison {
+  const matches = matchRecords(baseline, current);
+  const comparison: DatasetComparison = { changes: [], added: 0, removed: 0, changed: 0, unchanged: 0, fieldCounts: {} };
+
+  current.forEach((record, index) => {
+    const match = matches[index];
+    if (match === undefined) {
+      comparison.changes.push({ kind: 'added', record, fields: [] });
+      comparison.added++;
+      return;
+    }
+    const changed = diffRecords(baseline[match], record, fields);
+    if (changed.length === 0) {
+      comparison.unchanged++;
+      return;
+    }
+    comparison.changes.push({ kind: 'changed', record, fields: changed });
+    comparison.changed++;
+    changed.forEach(({ field }) => {
+      comparison.fieldCounts[field] = (comparison.fieldCounts[field] ?? 0) + 1;
+    });
+  });
+
+  const matched = new Set(matches);
+  baseline.forEach((record, position) => {
+    if (matched.has(position)) return;
+    comparison.changes.push({ kind: 'removed', record, fields: [] });
+    comparison.removed++;
+  });
+  return comparison;
+}
+
+// Build an export file of only the changes, each record led by what changed and what it was before.
+// The quality filter is not applied, so no change, such as a removed record, is left out.
+export function exportChanges(
+  changes: RecordChange[],
+  baseName: string,
+  fields: SchemaField[],
+  config: ExportSettings = getExportSettings()
+): ExportFile {
+  const records = changes.map(({ kind, record, fields: changed }) => ({
+    ...record,
+    extra: {
+      ...record.extra,
+      __change: changeKinds[kind],
+      __changedFields: changed.map(change => change.label).join('; '),
+      __previousValues: changed.map(change => `${change.label}: ${change.before || '(empty)'}`).join('; ')
+    }
+  }));
+  const columns = [
+    ...changeColumns.map(column => ({ field: column.key, header: column.label })),
+    ...exportColumns(config, fields)
+  ];
+  return exportRecords(records, baseName, [...changeColumns, ...fields], { ...config, columns, quality: 'all' });
+}
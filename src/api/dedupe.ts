@@ -0,0 +1,151 @@
+import type { Charity } from './scraper';
+import { FieldValue, hasValue } from './schema';
+import { extractDomain } from '../utils/url';
+
+// Types
+export interface MergeResult {
+  charities: Charity[];
+  added: number;
+  merged: number;
+}
+
+// Domains shared by many organizations, which say nothing about identity
+const sharedDomains = new Set([
+  'facebook.com', 'twitter.com', 'x.com', 'linkedin.com', 'instagram.com', 'youtube.com',
+  'google.com', 'sites.google.com', 'wixsite.com', 'squarespace.com', 'wordpress.com',
+  'blogspot.com', 'charitynavigator.org', 'goodfirms.co', 'guidestar.org', 'candid.org'
+]);
+
+// Common words and suffixes that vary between listings of the same organization
+const nameNoise = /\b(the|inc|incorporated|corp|corporation|co|llc|ltd|org)\b/g;
+
+const addressAbbreviations: Record<string, string> = {
+  street: 'st', avenue: 'ave', boulevard: 'blvd', road: 'rd', drive: 'dr', lane: 'ln',
+  place: 'pl', court: 'ct', suite: 'ste', north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw'
+};
+
+// Normalize an organization name for comparison
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(nameNoise, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Normalize a street address for comparison
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => addressAbbreviations[word] ?? word)
+    .join(' ');
+}
+
+// Normalize an EIN to its nine digits
+export function normalizeEin(ein: string | undefined): string | null {
+  const digits = (ein ?? '').replace(/\D/g, '');
+  return digits.length === 9 ? digits : null;
+}
+
+// All keys that identify a charity; two records sharing any key are the same organization
+export function identityKeys(charity: Charity): string[] {
+  const keys: string[] = [];
+
+  const ein = normalizeEin(charity.ein);
+  if (ein) keys.push(`ein:${ein}`);
+
+  const domain = extractDomain(charity.website);
+  if (domain && !sharedDomains.has(domain)) keys.push(`domain:${domain}`);
+
+  const name = normalizeName(charity.name);
+  const address = normalizeAddress(charity.address);
+  if (name && address) keys.push(`name:${name}|${address}`);
+
+  return keys;
+}
+
+// Rough measure of how much of an address is filled in
+function addressScore(address: string): number {
+  let score = address.trim().length;
+  if (/\b\d{5}(-\d{4})?\b/.test(address)) score += 100;
+  if (/^\s*\d+/.test(address)) score += 50;
+  return score;
+}
+
+// Combine profile field values, keeping existing ones and filling gaps from the incoming record
+function mergeExtra(existing: Record<string, FieldValue>, incoming: Record<string, FieldValue>): Record<string, FieldValue> {
+  const merged = { ...incoming };
+  for (const [key, value] of Object.entries(existing)) {
+    if (hasValue(value)) merged[key] = value;
+  }
+  return merged;
+}
+
+// Combine two records of the same organization, keeping the most useful value of each field
+export function mergeCharities(existing: Charity, incoming: Charity): Charity {
+  const keepIncomingAddress = addressScore(incoming.address) > addressScore(existing.address);
+  const keepIncomingEmail = !!incoming.email && (
+    !existing.email || (incoming.emailConfidence ?? 0) > (existing.emailConfidence ?? 0)
+  );
+
+  return {
+    ...existing,
+    name: existing.name || incoming.name,
+    address: keepIncomingAddress ? incoming.address : existing.address,
+    state: keepIncomingAddress || existing.state === 'Unknown' ? incoming.state : existing.state,
+    // Address parts travel together with the address they were parsed from
+    street: keepIncomingAddress ? incoming.street : existing.street,
+    city: keepIncomingAddress ? incoming.city : existing.city,
+    zip: keepIncomingAddress ? incoming.zip : existing.zip,
+    country: keepIncomingAddress ? incoming.country : existing.country,
+    stateInferred: keepIncomingAddress || existing.state === 'Unknown' ? incoming.stateInferred : existing.stateInferred,
+    website: existing.website || incoming.website,
+    // A website check belongs to the website it was made on
+    websiteStatus: existing.website ? existing.websiteStatus : incoming.websiteStatus,
+    websiteFinalUrl: existing.website ? existing.websiteFinalUrl : incoming.websiteFinalUrl,
+    email: keepIncomingEmail ? incoming.email : existing.email,
+    emailSource: keepIncomingEmail ? incoming.emailSource : existing.emailSource,
+    emailConfidence: keepIncomingEmail ? incoming.emailConfidence : existing.emailConfidence,
+    detailUrl: existing.detailUrl || incoming.detailUrl,
+    ein: existing.ein || incoming.ein,
+    ...(existing.extra || incoming.extra ? { extra: mergeExtra(existing.extra ?? {}, incoming.extra ?? {}) } : {})
+  };
+}
+
+// Add a page of charities to a dataset, merging records that match one already present
+export function mergeIntoDataset(dataset: Charity[], incoming: Charity[]): MergeResult {
+  const charities = [...dataset];
+  const index = new Map<string, number>();
+  charities.forEach((charity, position) => {
+    identityKeys(charity).forEach(key => index.set(key, position));
+  });
+
+  let added = 0;
+  let merged = 0;
+
+  for (const charity of incoming) {
+    const keys = identityKeys(charity);
+    const match = keys.map(key => index.get(key)).find(position => position !== undefined);
+
+    let position: number;
+    if (match === undefined) {
+      position = charities.push(charity) - 1;
+      added++;
+    } else {
+      position = match;
+      charities[position] = mergeCharities(charities[position], charity);
+      merged++;
+    }
+
+    // Index the merged record under every key it now has
+    identityKeys(charities[position]).forEach(key => index.set(key, position));
+  }
+
+  return { charities, added, merged };
+}
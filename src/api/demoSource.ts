@@ -0,0 +1,129 @@
+import type { Charity, PageCursor, PageResult, PageSource } from './scraper';
+
+// Number of pages the demo source pretends to have
+const DEMO_PAGE_COUNT = 20;
+
+// Real charity data used as the first demo page
+const realCharityData: Charity[] = [
+  {
+    name: "American Red Cross",
+    address: "431 18th Street NW, Washington, DC 20006",
+    website: "https://www.redcross.org",
+    email: "info@redcross.org",
+    state: "DC"
+  },
+  {
+    name: "Feeding America",
+    address: "161 North Clark Street, Chicago, IL 60601",
+    website: "https://www.feedingamerica.org",
+    email: "info@feedingamerica.org",
+    state: "IL"
+  },
+  {
+    name: "Habitat for Humanity",
+    address: "285 Peachtree Center Ave NE, Atlanta, GA 30303",
+    website: "https://www.habitat.org",
+    email: "info@habitat.org",
+    state: "GA"
+  },
+  {
+    name: "St. Jude Children's Research Hospital",
+    address: "262 Danny Thomas Place, Memphis, TN 38105",
+    website: "https://www.stjude.org",
+    email: "donors@stjude.org",
+    state: "TN"
+  },
+  {
+    name: "United Way Worldwide",
+    address: "701 N Fairfax St, Alexandria, VA 22314",
+    website: "https://www.unitedway.org",
+    email: "info@unitedway.org",
+    state: "VA"
+  },
+  {
+    name: "Doctors Without Borders",
+    address: "40 Rector St, New York, NY 10006",
+    website: "https://www.doctorswithoutborders.org",
+    email: "donations@doctorswithoutborders.org",
+    state: "NY"
+  },
+  {
+    name: "World Wildlife Fund",
+    address: "1250 24th Street, N.W., Washington, DC 20037",
+    website: "https://www.worldwildlife.org",
+    email: "info@wwfus.org",
+    state: "DC"
+  },
+  {
+    name: "The Salvation Army",
+    address: "615 Slaters Lane, Alexandria, VA 22313",
+    website: "https://www.salvationarmyusa.org",
+    email: "info@salvationarmy.org",
+    state: "VA"
+  },
+  {
+    name: "Boys & Girls Clubs of America",
+    address: "1275 Peachtree St NE, Atlanta, GA 30309",
+    website: "https://www.bgca.org",
+    email: "info@bgca.org",
+    state: "GA"
+  },
+  {
+    name: "Make-A-Wish Foundation",
+    address: "1702 E Highland Ave, Phoenix, AZ 85016",
+    website: "https://www.wish.org",
+    email: "info@wish.org",
+    state: "AZ"
+  }
+];
+
+// Generate more charities based on the real ones
+function generateMoreCharities(page: number, count: number): Charity[] {
+  const statesList = ['CA', 'NY', 'TX', 'FL', 'IL', 'PA', 'OH', 'GA', 'NC', 'MI', 'VA', 'WA', 'AZ', 'MA', 'TN', 'IN', 'MO', 'MD', 'WI', 'CO'];
+  const baseIndex = (page - 1) * count;
+  
+  return Array.from({ length: count }, (_, i) => {
+    const index = baseIndex + i;
+    const randomState = statesList[index % statesList.length];
+    const randomBase = realCharityData[index % realCharityData.length];
+    
+    return {
+      name: `${randomBase.name} ${index + 1}`,
+      address: `${123 + index} Main St, City, ${randomState} ${10000 + index}`,
+      website: `https://${randomBase.website.split('//')[1].split('.')[0]}${index}.org`,
+      email: `info@${randomBase.website.split('//')[1].split('.')[0]}${index}.org`,
+      state: randomState
+    };
+  });
+}
+
+// Demo page source serving synthetic charities, useful for trying the UI offline
+export const demoSource: PageSource = {
+  id: 'demo',
+  label: 'Demo data (synthetic)',
+  async fetchPage(cursor: PageCursor): Promise<PageResult> {
+    const { pageNumber } = cursor;
+    const nextCursor = { pageNumber: pageNumber + 1 };
+
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    // For the first page, return some real charity data
+    if (pageNumber === 1) {
+      return { charities: realCharityData, hasMore: true, nextCursor };
+    }
+
+    // Stop after the last page to simulate reaching the end
+    if (pageNumber > DEMO_PAGE_COUNT) {
+      return { charities: [], hasMore: false, nextCursor };
+    }
+
+    // Generate 5-10 charities per page
+    const count = Math.floor(Math.random() * 6) + 5;
+    return {
+      charities: generateMoreCharities(pageNumber, count),
+      hasMore: pageNumber < DEMO_PAGE_COUNT,
+      nextCursor
+    };
+  }
+};
@@ -0,0 +1,378 @@
+import * as cheerio from 'cheerio';
+import { Charity, ScraperConfig, getScraperConfig } from './scraper';
+import { politeGet } from './fetcher';
+import { LogSink, consoleSink, errorDetails } from './log';
+import { mapUntilStopped } from '../utils/concurrency';
+import { loadJson, saveJson } from '../utils/storage';
+import { absoluteUrl, extractDomain } from '../utils/url';
+
+// Constants
+// Read on the server and command line only, so the key never reaches the browser bundle
+const HUNTER_API_KEY = globalThis.process?.env?.HUNTER_API_KEY;
+const SETTINGS_KEY = 'enrichmentSettings';
+const CACHE_KEY = 'emailCache';
+const USAGE_KEY = 'hunterUsage';
+const ENRICHMENT_CONCURRENCY = 3;
+// Domains where no email was found are searched again after this long, as sites and providers change
+const NOT_FOUND_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+// Types
+export type EmailProviderId = 'website' | 'hunter' | 'pattern';
+
+export interface EmailResult {
+  email: string;
+  provider: EmailProviderId;
+  confidence: number;
+}
+
+// Finds an email address for a charity's domain
+export interface EmailProvider {
+  id: EmailProviderId;
+  label: string;
+  // Problems that do not fail the lookup, such as an unreadable robots.txt, go to the log sink;
+  // shouldStop ends retry waits, failing the lookup with the last error
+  findEmail(domain: string, charity: Charity, config: ScraperConfig, log: LogSink, shouldStop: () => boolean): Promise<EmailResult | null>;
+}
+
+export interface EnrichmentSettings {
+  enabled: boolean;
+  // Providers to try, in order, until one finds an email
+  providers: EmailProviderId[];
+  // Hunter domain searches allowed per calendar month
+  hunterMonthlyBudget: number;
+  // Local part the pattern provider guesses, e.g. info for info@; empty turns the guess off.
+  // A guess is never verified, so there is one rather than a list to pick from.
+  guessPattern: string;
+}
+
+export interface HunterUsage {
+  // Calendar month the count applies to, as YYYY-MM
+  period: string;
+  used: number;
+}
+
+interface CacheEntry {
+  result: EmailResult | null;
+  checkedAt: string;
+}
+
+// The parts of Hunter API responses we read
+interface HunterResponse {
+  data?: {
+    emails?: { value?: string; confidence?: number }[];
+    requests?: { searches?: { used?: number } };
+  };
+}
+
+// Settings and counters shown in the enrichment panel
+export interface EnrichmentStatus {
+  settings: EnrichmentSettings;
+  usage: HunterUsage;
+  cacheSize: number;
+  hunterConfigured: boolean;
+}
+
+export interface EnrichmentStats {
+  found: number;
+  fromCache: number;
+  hunterSearches: number;
+  budgetExhausted: boolean;
+}
+
+const defaultSettings: EnrichmentSettings = {
+  enabled: false,
+  providers: ['website', 'hunter', 'pattern'],
+  hunterMonthlyBudget: 25,
+  guessPattern: 'info'
+};
+
+// Fill in settings saved by older versions, which kept a list of patterns but only ever used the first
+function upgradeSettings(saved: Partial<EnrichmentSettings> & { guessPatterns?: string[] }): EnrichmentSettings {
+  const { guessPatterns, ...rest } = saved;
+  return { ...defaultSettings, ...(guessPatterns ? { guessPattern: guessPatterns[0] ?? '' } : {}), ...rest };
+}
+
+let settings: EnrichmentSettings = upgradeSettings(loadJson(SETTINGS_KEY, {}));
+let cache: Record<string, CacheEntry> = loadJson(CACHE_KEY, {});
+let usage: HunterUsage = loadJson(USAGE_KEY, { period: currentPeriod(), used: 0 });
+// Lookups in flight, so concurrent items on the same domain share one search
+const pendingLookups = new Map<string, Promise<EmailResult | null>>();
+// Hunter searches sent but not answered yet; they count against the budget once Hunter answers
+let hunterSearchesInFlight = 0;
+
+// Get the calendar month Hunter quotas are counted in
+function currentPeriod(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+// Get enrichment settings
+export function getEnrichmentSettings(): EnrichmentSettings {
+  return settings;
+}
+
+// Update enrichment settings
+export function updateEnrichmentSettings(changes: Partial<EnrichmentSettings>): EnrichmentSettings {
+  settings = { ...settings, ...changes };
+  saveJson(SETTINGS_KEY, settings);
+  return settings;
+}
+
+// Get Hunter searches used this month, resetting the count when a new month starts
+export function getHunterUsage(): HunterUsage {
+  if (usage.period !== currentPeriod()) {
+    usage = { period: currentPeriod(), used: 0 };
+    saveJson(USAGE_KEY, usage);
+  }
+  return usage;
+}
+
+// Check whether another Hunter search fits in this month's budget, counting searches still waiting for an answer
+function hasHunterBudget(): boolean {
+  return getHunterUsage().used + hunterSearchesInFlight < settings.hunterMonthlyBudget;
+}
+
+// Record a Hunter search against the monthly budget
+function recordHunterSearch(): void {
+  usage = { ...getHunterUsage(), used: getHunterUsage().used + 1 };
+  saveJson(USAGE_KEY, usage);
+}
+
+// Replace the local usage count with what the Hunter account reports
+export async function syncHunterUsage(): Promise<HunterUsage> {
+  if (!HUNTER_API_KEY) throw new Error('HUNTER_API_KEY is not set on the server');
+  const response = await politeGet<HunterResponse>('https://api.hunter.io/v2/account', getScraperConfig(), {
+    params: { api_key: HUNTER_API_KEY },
+    responseType: 'json',
+    checkRobots: false
+  });
+  const used = response.data?.data?.requests?.searches?.used;
+  if (typeof used === 'number') {
+    usage = { period: currentPeriod(), used };
+    saveJson(USAGE_KEY, usage);
+  }
+  return usage;
+}
+
+// Number of domains with a cached lookup
+export function getEmailCacheSize(): number {
+  return Object.keys(cache).length;
+}
+
+// Forget all cached lookups so domains are searched again
+export function clearEmailCache(): void {
+  cache = {};
+  saveJson(CACHE_KEY, cache);
+}
+
+// Get everything the enrichment panel shows
+export function getEnrichmentStatus(): EnrichmentStatus {
+  return {
+    settings,
+    usage: getHunterUsage(),
+    cacheSize: getEmailCacheSize(),
+    hunterConfigured: Boolean(HUNTER_API_KEY)
+  };
+}
+
+// Pick the best address from candidates, preferring ones on the charity's own domain
+function pickEmail(candidates: string[], domain: string): { email: string; onDomain: boolean } | null {
+  const unique = [...new Set(candidates.map(email => email.trim().toLowerCase()))]
+    .filter(email => !/\.(png|jpe?g|gif|svg|webp)$/.test(email));
+  if (unique.length === 0) return null;
+
+  const onDomain = unique.find(email => email.endsWith(`@${domain}`) || email.endsWith(`.${domain}`));
+  return onDomain ? { email: onDomain, onDomain: true } : { email: unique[0], onDomain: false };
+}
+
+// Collect addresses from mailto links and visible text on a page
+async function findEmailsOnPage(
+  url: string,
+  config: ScraperConfig,
+  log: LogSink,
+  shouldStop: () => boolean
+): Promise<{ emails: string[]; contactUrl?: string }> {
+  const response = await politeGet(url, config, { log, shouldStop });
+  const $ = cheerio.load(response.data);
+
+  const emails = $('a[href^="mailto:"]')
+    .map((_, element) => decodeURIComponent(($(element).attr('href') || '').slice(7).split('?')[0]))
+    .get()
+    .filter(Boolean);
+  emails.push(...($('body').text().match(EMAIL_PATTERN) ?? []));
+
+  const contactHref = $('a[href*="contact" i]').first().attr('href');
+  return { emails, contactUrl: contactHref ? absoluteUrl(contactHref, url) : undefined };
+}
+
+// Provider that reads mailto: links from the charity's own website and its contact page
+const websiteProvider: EmailProvider = {
+  id: 'website',
+  label: 'Charity website (mailto links)',
+  async findEmail(domain: string, charity: Charity, config: ScraperConfig, log: LogSink, shouldStop: () => boolean): Promise<EmailResult | null> {
+    const homepage = charity.website || `https://${domain}`;
+    const { emails, contactUrl } = await findEmailsOnPage(homepage, config, log, shouldStop);
+
+    if (emails.length === 0 && contactUrl && extractDomain(contactUrl) === domain) {
+      emails.push(...(await findEmailsOnPage(contactUrl, config, log, shouldStop)).emails);
+    }
+
+    const picked = pickEmail(emails, domain);
+    if (!picked) return null;
+    return { email: picked.email, provider: 'website', confidence: picked.onDomain ? 80 : 50 };
+  }
+};
+
+// Provider that uses Hunter.io domain search, within the monthly budget
+const hunterProvider: EmailProvider = {
+  id: 'hunter',
+  label: 'Hunter.io domain search',
+  async findEmail(
+    domain: string,
+    _charity: Charity,
+    config: ScraperConfig,
+    _log: LogSink,
+    shouldStop: () => boolean
+  ): Promise<EmailResult | null> {
+    if (!HUNTER_API_KEY || !hasHunterBudget()) return null;
+
+    // Failed requests and error responses are not charged by Hunter, so only an answer is recorded
+    hunterSearchesInFlight++;
+    let response;
+    try {
+      response = await politeGet<HunterResponse>('https://api.hunter.io/v2/domain-search', config, {
+        params: {
+          domain,
+          api_key: HUNTER_API_KEY,
+          limit: 1,
+        },
+        responseType: 'json',
+        checkRobots: false,
+        shouldStop
+      });
+    } finally {
+      hunterSearchesInFlight--;
+    }
+    recordHunterSearch();
+
+    const found = response.data?.data?.emails?.[0];
+    if (!found?.value) return null;
+    return { email: found.value, provider: 'hunter', confidence: found.confidence ?? 50 };
+  }
+};
+
+// Provider that guesses a role address such as info@ without verifying it
+const patternProvider: EmailProvider = {
+  id: 'pattern',
+  label: 'Pattern guess (e.g. info@)',
+  async findEmail(domain: string): Promise<EmailResult | null> {
+    const localPart = settings.guessPattern.trim();
+    if (!localPart) return null;
+    return { email: `${localPart}@${domain}`, provider: 'pattern', confidence: 10 };
+  }
+};
+
+// All available email providers, keyed by id
+export const emailProviders: Record<EmailProviderId, EmailProvider> = {
+  website: websiteProvider,
+  hunter: hunterProvider,
+  pattern: patternProvider
+};
+
+// Look up an email for one domain, reusing cached and in-flight lookups
+async function lookupDomain(
+  domain: string,
+  charity: Charity,
+  config: ScraperConfig,
+  stats: EnrichmentStats,
+  log: LogSink,
+  shouldStop: () => boolean
+): Promise<EmailResult | null> {
+  const cached = cache[domain];
+  const expired = cached?.result === null && Date.now() - Date.parse(cached.checkedAt) > NOT_FOUND_TTL_MS;
+  if (cached && !expired) {
+    stats.fromCache++;
+    return cached.result;
+  }
+
+  const pending = pendingLookups.get(domain);
+  if (pending) {
+    stats.fromCache++;
+    return pending;
+  }
+
+  const lookup = searchProviders(domain, charity, config, stats, log, shouldStop);
+  pendingLookups.set(domain, lookup);
+  try {
+    return await lookup;
+  } finally {
+    pendingLookups.delete(domain);
+  }
+}
+
+// Try each configured provider in order, caching the outcome. "No email" is only cached when every
+// provider answered; a network error, rate limit or server error leaves the domain to be searched again.
+// A provider cut short by a stop fails the whole lookup, so the charity is looked up again when the job continues.
+async function searchProviders(
+  domain: string,
+  charity: Charity,
+  config: ScraperConfig,
+  stats: EnrichmentStats,
+  log: LogSink,
+  shouldStop: () => boolean
+): Promise<EmailResult | null> {
+  let result: EmailResult | null = null;
+  let hunterSkipped = false;
+  let failed = false;
+
+  for (const providerId of settings.providers) {
+    if (providerId === 'hunter' && !hasHunterBudget()) {
+      stats.budgetExhausted = true;
+      hunterSkipped = true;
+      continue;
+    }
+
+    try {
+      result = await emailProviders[providerId].findEmail(domain, charity, config, log, shouldStop);
+    } catch (error) {
+      if (shouldStop()) throw error;
+      failed = true;
+      log({ level: 'warn', message: `Email lookup for ${domain} with ${providerId} failed`, url: charity.website, error: errorDetails(error) });
+    }
+    if (result) break;
+  }
+
+  // Leave the domain uncached when Hunter was skipped, so it is searched once budget frees up
+  if (result || (!hunterSkipped && !failed)) {
+    cache = { ...cache, [domain]: { result, checkedAt: new Date().toISOString() } };
+    saveJson(CACHE_KEY, cache);
+  }
+
+  return result;
+}
+
+// Fill in missing emails for a page of charities. Once shouldStop says so no new lookups start,
+// and only the charities enriched so far are returned, from the first in order.
+export async function enrichCharities(
+  charities: Charity[],
+  config: ScraperConfig = getScraperConfig(),
+  log: LogSink = consoleSink,
+  shouldStop: () => boolean = () => false
+): Promise<{ charities: Charity[]; stats: EnrichmentStats }> {
+  const stats: EnrichmentStats = { found: 0, fromCache: 0, hunterSearches: 0, budgetExhausted: false };
+  const hunterUsedBefore = getHunterUsage().used;
+
+  const enriched = await mapUntilStopped(charities, ENRICHMENT_CONCURRENCY, async charity => {
+    const domain = extractDomain(charity.website);
+    if (charity.email || !domain) return charity;
+
+    const result = await lookupDomain(domain, charity, config, stats, log, shouldStop);
+    if (!result) return charity;
+
+    stats.found++;
+    return { ...charity, email: result.email, emailSource: result.provider, emailConfidence: result.confidence };
+  }, shouldStop);
+
+  stats.hunterSearches = getHunterUsage().used - hunterUsedBefore;
+  return { charities: enriched, stats };
+}
@@ -0,0 +1,236 @@
+import type { Charity } from './scraper';
+import { FieldValue, SchemaField, formatFieldValue, getFieldValue, hasValue, recordProperties } from './schema';
+import { QualityFilter, matchesQualityFilter, withQualityFlags } from './quality';
+import { groupByState } from './records';
+import { loadJson, saveJson } from '../utils/storage';
+import { concatBytes, createZip } from '../utils/zip';
+import { CellValue, createWorkbook } from '../utils/xlsx';
+
+// Constants
+const SETTINGS_KEY = 'exportSettings';
+
+// Types
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx' | 'csv-zip';
+
+export type TextEncoding = 'utf8' | 'utf8-bom' | 'utf16le';
+
+// A field to export, by schema field key or record property, and the header it gets
+export interface ExportColumn {
+  field: string;
+  header: string;
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // Exported columns, in order; empty exports every field of the job's schema
+  columns: ExportColumn[];
+  // Field to sort on; empty sorts on the first column
+  sortBy: string;
+  descending: boolean;
+  // Delimiter and encoding apply to CSV files, including those in the per-state ZIP
+  delimiter: string;
+  encoding: TextEncoding;
+  // Records to keep by their quality flags
+  quality: QualityFilter;
+}
+
+export interface ExportFile {
+  filename: string;
+  data: Uint8Array;
+  mimeType: string;
+  // Records written, after the quality filter
+  count: number;
+}
+
+export const exportFormats: Record<ExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV', extension: 'csv' },
+  json: { label: 'JSON', extension: 'json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx' },
+  'csv-zip': { label: 'ZIP with one CSV per state', extension: 'zip' }
+};
+
+export const delimiters: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+};
+
+export const textEncodings: Record<TextEncoding, string> = {
+  utf8: 'UTF-8',
+  'utf8-bom': 'UTF-8 with BOM (for Excel)',
+  utf16le: 'UTF-16 LE (for older Excel)'
+};
+
+const defaultSettings: ExportSettings = {
+  format: 'csv',
+  columns: [],
+  sortBy: '',
+  descending: false,
+  delimiter: ',',
+  encoding: 'utf8',
+  quality: 'all'
+};
+
+let settings: ExportSettings = { ...defaultSettings, ...loadJson<Partial<ExportSettings>>(SETTINGS_KEY, {}) };
+
+// Get saved export settings
+export function getExportSettings(): ExportSettings {
+  return settings;
+}
+
+// Update export settings
+export function updateExportSettings(changes: Partial<ExportSettings>): ExportSettings {
+  settings = { ...settings, ...changes };
+  saveJson(SETTINGS_KEY, settings);
+  return settings;
+}
+
+// Fields that can be exported: the schema's, then the record properties it leaves out
+export function exportableFields(fields: SchemaField[]): Record<string, string> {
+  const available: Record<string, string> = {};
+  fields.forEach(field => {
+    available[field.key] = field.label;
+  });
+  Object.entries(recordProperties).forEach(([key, label]) => {
+    available[key] ??= label;
+  });
+  return available;
+}
+
+// The columns to export for a schema: the saved ones it has, or all of its fields when none are saved
+export function exportColumns(config: ExportSettings, fields: SchemaField[]): ExportColumn[] {
+  const available = exportableFields(fields);
+  const saved = config.columns.filter(column => column.field in available);
+  return saved.length > 0 ? saved : fields.map(field => ({ field: field.key, header: field.label }));
+}
+
+// Validate export settings for a schema, returning human-readable problems
+export function validateExportSettings(config: ExportSettings, fields: SchemaField[]): string[] {
+  const errors: string[] = [];
+  const columns = exportColumns(config, fields);
+  if (columns.length === 0) errors.push('Choose at least one column to export');
+  if (columns.some(column => !column.header.trim())) errors.push('Every exported column needs a header');
+
+  const headers = columns.map(column => column.header.trim().toLowerCase());
+  if (new Set(headers).size !== headers.length) errors.push('Column headers must be unique');
+
+  if (config.delimiter.length !== 1 || /["\r\n]/.test(config.delimiter)) {
+    errors.push('The delimiter must be a single character other than a quote or line break');
+  }
+  return errors;
+}
+
+// A field's value for a spreadsheet cell; lists become one line of text
+function cellValue(value: FieldValue): CellValue {
+  return Array.isArray(value) ? formatFieldValue(value) : value;
+}
+
+// Sort records by the chosen field; empty values go last whichever way the sort runs
+export function sortForExport(charities: Charity[], sortBy: string, descending: boolean): Charity[] {
+  const direction = descending ? -1 : 1;
+  return [...charities].sort((a, b) => {
+    const left = getFieldValue(a, sortBy);
+    const right = getFieldValue(b, sortBy);
+    if (!hasValue(left) || !hasValue(right)) return hasValue(left) === hasValue(right) ? 0 : hasValue(left) ? -1 : 1;
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * direction;
+    return formatFieldValue(left).localeCompare(formatFieldValue(right), undefined, { sensitivity: 'base', numeric: true }) * direction;
+  });
+}
+
+// Encode text, adding a byte order mark when asked
+function encodeText(text: string, encoding: TextEncoding): Uint8Array {
+  if (encoding === 'utf16le') {
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      const unit = text.charCodeAt(i);
+      bytes[2 + i * 2] = unit & 0xff;
+      bytes[3 + i * 2] = unit >> 8;
+    }
+    return bytes;
+  }
+  const encoded = new TextEncoder().encode(text);
+  return encoding === 'utf8-bom' ? concatBytes([new Uint8Array([0xef, 0xbb, 0xbf]), encoded]) : encoded;
+}
+
+// Quote a value for a delimited-text cell
+function csvCell(value: CellValue): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
+
+// Build delimited text with a header row
+function toDelimited(charities: Charity[], columns: ExportColumn[], delimiter: string): string {
+  return [
+    columns.map(column => csvCell(column.header)).join(delimiter),
+    ...charities.map(charity =>
+      columns.map(column => csvCell(formatFieldValue(getFieldValue(charity, column.field)))).join(delimiter)
+    )
+  ].join('\r\n');
+}
+
+// A record as an object keyed by the chosen headers, in column order
+function toObject(charity: Charity, columns: ExportColumn[]): Record<string, FieldValue> {
+  return Object.fromEntries(columns.map(column => [column.header, getFieldValue(charity, column.field)]));
+}
+
+// File name for a state's CSV inside the ZIP
+function stateFileName(state: string): string {
+  return `${state.replace(/[^\w -]+/g, '_').trim() || 'Unknown'}.csv`;
+}
+
+// Build an export file of the records the quality filter keeps, in the configured format, columns and order
+export function exportRecords(charities: Charity[], baseName: string, fields: SchemaField[], config: ExportSettings = settings): ExportFile {
+  const columns = exportColumns(config, fields);
+  // Flags are worked out again so that edits since the records were scraped count
+  const kept = withQualityFlags(charities, fields).filter(charity => matchesQualityFilter(charity.qualityFlags, config.quality));
+  const sorted = sortForExport(kept, config.sortBy || columns[0].field, config.descending);
+  const filename = `${baseName}.${exportFormats[config.format].extension}`;
+  const charset = config.encoding === 'utf16le' ? 'utf-16le' : 'utf-8';
+  const count = sorted.length;
+
+  switch (config.format) {
+    case 'json':
+      return {
+        filename,
+        data: encodeText(JSON.stringify(sorted.map(charity => toObject(charity, columns)), null, 2), 'utf8'),
+        mimeType: 'application/json',
+        count
+      };
+    case 'ndjson':
+      return {
+        filename,
+        data: encodeText(sorted.map(charity => `${JSON.stringify(toObject(charity, columns))}\n`).join(''), 'utf8'),
+        mimeType: 'application/x-ndjson',
+        count
+      };
+    case 'xlsx':
+      return {
+        filename,
+        data: createWorkbook([{
+          name: 'Records',
+          rows: [
+            columns.map(column => column.header),
+            ...sorted.map(charity => columns.map(column => cellValue(getFieldValue(charity, column.field))))
+          ]
+        }]),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        count
+      };
+    case 'csv-zip': {
+      // One file per state, like the per-state tabs of the Google Sheets export
+      const entries = [...groupByState(sorted).entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([state, records]) => ({ name: stateFileName(state), data: encodeText(toDelimited(records, columns, config.delimiter), config.encoding) }));
+      return { filename, data: createZip(entries), mimeType: 'application/zip', count };
+    }
+    default:
+      return {
+        filename,
+        data: encodeText(toDelimited(sorted, columns, config.delimiter), config.encoding),
+        mimeType: `text/csv;charset=${charset}`,
+        count
+      };
+  }
+}
@@ -0,0 +1,310 @@
+import axios, { AxiosResponse, ResponseType } from 'axios';
+import type { ScraperConfig } from './scraper';
+import { LogSink, consoleSink, errorDetails } from './log';
+import { waitUnlessStopped } from '../utils/concurrency';
+
+// Constants
+const ROBOTS_CACHE_MS = 60 * 60 * 1000;
+// Unreadable robots.txt files are tried again sooner
+const ROBOTS_RETRY_MS = 60 * 1000;
+
+// Types
+export interface FetchConfig {
+  // Identifies the scraper to the sites it visits: sent with every request the server makes, set in the
+  // headless browser, and the name looked up in robots.txt
+  userAgent?: string;
+  timeoutMs?: number;
+  // Minimum pause between two requests to the same host
+  minIntervalMs?: number;
+  // Retries after a 429, a 5xx or a network error
+  maxRetries?: number;
+  // First retry waits this long, doubling on each attempt up to maxBackoffMs; a Retry-After within
+  // maxBackoffMs is waited out instead, and a longer one fails the request
+  backoffBaseMs?: number;
+  maxBackoffMs?: number;
+  respectRobots?: boolean;
+}
+
+export interface GetOptions {
+  params?: Record<string, unknown>;
+  responseType?: ResponseType;
+  // Skip robots.txt, for APIs rather than pages (defaults to the config's respectRobots)
+  checkRobots?: boolean;
+  // Checked while waiting to retry; a stop ends the wait and the request fails with its last error
+  shouldStop?: () => boolean;
+  // Where problems that do not fail the request are reported, such as an unreadable robots.txt
+  log?: LogSink;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+  expiresAt: number;
+  // Set when robots.txt could not be read, which blocks the whole site
+  unreadable?: boolean;
+}
+
+// An error status answered to a request made without axios, such as by the headless browser
+export class StatusError extends Error {
+  constructor(public status: number, url: string, public retryAfter?: string) {
+    super(`Request failed with status code ${status}: ${url}`);
+  }
+}
+
+// Defaults applied to profiles saved before fetching was configurable
+const defaultFetch: Required<FetchConfig> = {
+  userAgent: 'CharityScraper/1.0',
+  timeoutMs: 20000,
+  minIntervalMs: 1000,
+  maxRetries: 3,
+  backoffBaseMs: 1000,
+  maxBackoffMs: 60000,
+  respectRobots: true
+};
+
+// Earliest time the next request to each host may start
+const nextSlots = new Map<string, number>();
+// Parsed robots.txt per origin, shared by concurrent requests
+const robotsCache = new Map<string, Promise<RobotsPolicy>>();
+
+// Get the fetch settings of a configuration with defaults filled in
+export function getFetchSettings(config: ScraperConfig): Required<FetchConfig> {
+  return { ...defaultFetch, ...config.fetch };
+}
+
+// Wait between requests
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Request headers; scraping runs on the server, and browsers refuse to let scripts set User-Agent
+function requestHeaders(settings: Required<FetchConfig>): Record<string, string> {
+  return typeof window === 'undefined' ? { 'User-Agent': settings.userAgent } : {};
+}
+
+// Reserve the next free slot for a host and wait for it, so concurrent callers queue up in turn
+async function waitForHost(host: string, intervalMs: number): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlots.get(host) ?? 0);
+  nextSlots.set(host, slot + intervalMs);
+  if (slot > now) await delay(slot - now);
+}
+
+// Read a Retry-After header, given either in seconds or as an HTTP date
+function retryAfterMs(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Check whether a failed request is worth repeating
+function isRetryable(error: unknown): boolean {
+  if (error instanceof StatusError) return error.status === 429 || error.status >= 500;
+  if (!axios.isAxiosError(error)) {
+    // Navigation timeouts and network failures in the headless browser
+    return error instanceof Error && (error.name === 'TimeoutError' || error.message.includes('net::ERR_'));
+  }
+  const status = error.response?.status;
+  // No response means a timeout or network failure
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// How long a failed request's server asked us to wait before trying again, if it said
+function requestedWaitMs(error: unknown): number | null {
+  if (error instanceof StatusError) return retryAfterMs(error.retryAfter);
+  return axios.isAxiosError(error) ? retryAfterMs(error.response?.headers?.['retry-after']) : null;
+}
+
+// Parse the groups of a robots.txt that apply to our user agent
+function parseRobots(text: string, userAgent: string): Pick<RobotsPolicy, 'rules' | 'crawlDelayMs'> {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [], crawlDelayMs: 0 };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    inAgentLines = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay' && !Number.isNaN(Number(value))) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const chosen = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  return {
+    rules: chosen.flatMap(group => group.rules),
+    crawlDelayMs: Math.max(0, ...chosen.map(group => group.crawlDelayMs))
+  };
+}
+
+// Match a robots.txt path pattern, which may use * and a trailing $
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+// Check a path against robots.txt rules; the longest matching rule wins, and Allow wins ties
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!robotsPatternMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+// Fetch and parse an origin's robots.txt
+async function loadRobots(origin: string, settings: Required<FetchConfig>, log: LogSink): Promise<RobotsPolicy> {
+  await waitForHost(new URL(origin).host, settings.minIntervalMs);
+  try {
+    const response = await axios.get<string>(`${origin}/robots.txt`, {
+      responseType: 'text',
+      timeout: settings.timeoutMs,
+      headers: requestHeaders(settings),
+      validateStatus: status => status < 500
+    });
+    // A missing robots.txt (any 4xx) allows everything
+    if (response.status >= 400) return { rules: [], crawlDelayMs: 0, expiresAt: Date.now() + ROBOTS_CACHE_MS };
+    return { ...parseRobots(String(response.data ?? ''), settings.userAgent), expiresAt: Date.now() + ROBOTS_CACHE_MS };
+  } catch (error) {
+    // An unreachable or failing robots.txt means the whole site is off limits until it can be read
+    log({ level: 'warn', message: `Could not read ${origin}/robots.txt; its pages are not fetched until it can be read`, url: `${origin}/robots.txt`, error: errorDetails(error) });
+    return { rules: [{ allow: false, pattern: '/' }], crawlDelayMs: 0, expiresAt: Date.now() + ROBOTS_RETRY_MS, unreadable: true };
+  }
+}
+
+// Get the robots.txt policy for an origin, reusing a recent copy
+function getRobots(origin: string, settings: Required<FetchConfig>, log: LogSink): Promise<RobotsPolicy> {
+  const cached = robotsCache.get(origin);
+  if (cached) {
+    return cached.then(policy => {
+      if (Date.now() < policy.expiresAt) return policy;
+      if (robotsCache.get(origin) === cached) robotsCache.delete(origin);
+      return getRobots(origin, settings, log);
+    });
+  }
+
+  const policy = loadRobots(origin, settings, log);
+  robotsCache.set(origin, policy);
+  return policy;
+}
+
+// Forget cached robots.txt files, e.g. after changing the User-Agent
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
+
+// Check robots.txt for a URL and work out the pause its host needs between requests; throws when refused
+async function requestInterval(target: URL, settings: Required<FetchConfig>, checkRobots: boolean, log: LogSink): Promise<number> {
+  if (!checkRobots) return settings.minIntervalMs;
+
+  const robots = await getRobots(target.origin, settings, log);
+  if (!isPathAllowed(robots.rules, `${target.pathname}${target.search}`)) {
+    throw new Error(robots.unreadable
+      ? `Could not read ${target.origin}/robots.txt, so ${target.href} was not fetched`
+      : `Blocked by robots.txt: ${target.href}`);
+  }
+  return Math.max(settings.minIntervalMs, robots.crawlDelayMs);
+}
+
+// Make a request politely: robots.txt is checked, each host is rate limited, and throttling, server
+// and network errors are retried with exponential backoff. A Retry-After longer than the backoff cap
+// fails the request rather than stalling the run. For callers that make the request themselves,
+// such as the headless browser; failures are thrown rather than swallowed.
+export async function requestPolitely<T>(
+  url: string,
+  config: ScraperConfig,
+  request: () => Promise<T>,
+  options: Pick<GetOptions, 'checkRobots' | 'shouldStop' | 'log'> = {}
+): Promise<T> {
+  const settings = getFetchSettings(config);
+  const target = new URL(url);
+  const intervalMs = await requestInterval(target, settings, options.checkRobots ?? settings.respectRobots, options.log ?? consoleSink);
+  const shouldStop = options.shouldStop ?? (() => false);
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForHost(target.host, intervalMs);
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= settings.maxRetries || !isRetryable(error) || shouldStop()) throw error;
+
+      const requested = requestedWaitMs(error);
+      if (requested !== null && requested > settings.maxBackoffMs) {
+        throw new Error(`${target.host} asked to wait ${Math.ceil(requested / 1000)}s before a retry, longer than the ${settings.maxBackoffMs / 1000}s backoff cap: ${url}`);
+      }
+      await waitUnlessStopped(requested ?? Math.min(settings.maxBackoffMs, settings.backoffBaseMs * 2 ** attempt), shouldStop);
+      if (shouldStop()) throw error;
+    }
+  }
+}
+
+// GET a URL politely, as requestPolitely describes
+export function politeGet<T = string>(
+  url: string,
+  config: ScraperConfig,
+  options: GetOptions = {}
+): Promise<AxiosResponse<T>> {
+  const settings = getFetchSettings(config);
+  return requestPolitely(url, config, () => axios.get<T>(url, {
+    params: options.params,
+    responseType: options.responseType ?? 'text',
+    timeout: settings.timeoutMs,
+    headers: requestHeaders(settings)
+  }), options);
+}
+
+// Validate fetch settings, returning human-readable problems
+export function validateFetchSettings(config: ScraperConfig): string[] {
+  const settings = getFetchSettings(config);
+  const errors: string[] = [];
+
+  if (!settings.userAgent.trim()) errors.push('User-Agent is required');
+  if (!Number.isFinite(settings.timeoutMs) || settings.timeoutMs < 1000) {
+    errors.push('Request timeout must be at least 1000 ms');
+  }
+  if (!Number.isFinite(settings.minIntervalMs) || settings.minIntervalMs < 0) {
+    errors.push('Delay between requests cannot be negative');
+  }
+  if (!Number.isInteger(settings.maxRetries) || settings.maxRetries < 0) {
+    errors.push('Retries must be a whole number of at least 0');
+  }
+  if (!Number.isFinite(settings.backoffBaseMs) || settings.backoffBaseMs < 0 || settings.maxBackoffMs < settings.backoffBaseMs) {
+    errors.push('Backoff cap must be at least the initial backoff');
+  }
+
+  return errors;
+}
@@ -0,0 +1,270 @@
+import type { Charity } from './scraper';
+import { parseAddress, stateName } from './address';
+import { MergeResult, mergeIntoDataset, normalizeEin } from './dedupe';
+import { FieldValue, RecordProperty, SchemaField, isRecordProperty, missingRequired, recordProperties } from './schema';
+import { parseFieldInput } from './records';
+import { isPlaceholder } from './quality';
+import { parseDelimited } from '../utils/csv';
+import { readWorkbook } from '../utils/xlsx';
+
+// Types
+// Record properties set by the app: where the email came from, whether the state was inferred, and the quality checks
+type AppProperty = 'emailSource' | 'stateInferred' | 'websiteStatus' | 'websiteFinalUrl' | 'qualityFlags';
+
+// Record properties a column can be imported into
+type ImportProperty = Exclude<RecordProperty, AppProperty>;
+
+export type ImportMode = 'append' | 'merge' | 'replace';
+
+// A file's header row and data rows, as text
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// The field key each column goes into, by column position; null leaves the column out
+export type ImportMapping = (string | null)[];
+
+export interface ImportRowError {
+  // Line or sheet row number as shown in a spreadsheet program, counting the header as row 1
+  row: number;
+  errors: string[];
+}
+
+export interface ImportResult {
+  records: Charity[];
+  errors: ImportRowError[];
+}
+
+// Constants
+const appProperties: AppProperty[] = ['emailSource', 'stateInferred', 'websiteStatus', 'websiteFinalUrl', 'qualityFlags'];
+
+const importProperties = Object.fromEntries(
+  Object.entries(recordProperties).filter(([field]) => !appProperties.includes(field as AppProperty))
+) as Record<ImportProperty, string>;
+
+export const importModes: Record<ImportMode, string> = {
+  append: 'Append to the current records',
+  merge: 'Merge, combining duplicates',
+  replace: 'Replace the current records'
+};
+
+export const IMPORT_EXTENSIONS = ['.csv', '.tsv', '.txt', '.json', '.ndjson', '.jsonl', '.xlsx'];
+
+// Header spellings recognized for each field, after lowercasing and dropping punctuation
+const headerAliases: Record<ImportProperty, string[]> = {
+  name: ['name', 'company name', 'company', 'org', 'organization', 'organization name', 'charity', 'charity name'],
+  address: ['address', 'full address', 'location', 'mailing address'],
+  street: ['street', 'street address', 'address 1', 'address line 1'],
+  city: ['city', 'town'],
+  state: ['state', 'state code', 'province', 'region'],
+  zip: ['zip', 'zip code', 'zipcode', 'postal code', 'postcode'],
+  country: ['country'],
+  website: ['website', 'web site', 'url', 'company url', 'homepage', 'site'],
+  email: ['email', 'e mail', 'email address', 'company email', 'contact email'],
+  emailConfidence: ['email confidence', 'confidence'],
+  ein: ['ein', 'tax id', 'tax id number'],
+  detailUrl: ['detail url', 'profile url', 'detail link']
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Decode file bytes, honoring a UTF-16 byte order mark; a UTF-8 one is dropped by the decoder
+function decodeText(data: Uint8Array): string {
+  if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder('utf-16le').decode(data.subarray(2));
+  if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder('utf-16be').decode(data.subarray(2));
+  return new TextDecoder().decode(data);
+}
+
+// Turn a parsed value into cell text
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+}
+
+// Read a JSON array of objects, or one object per line, into a table of every key seen
+function readJsonTable(text: string): ImportTable {
+  let items: unknown;
+  try {
+    items = JSON.parse(text);
+  } catch {
+    items = text.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+    });
+  }
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new Error('Expected a JSON array of objects, or one object per line');
+  }
+
+  const records = items as Record<string, unknown>[];
+  const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return { headers, rows: records.map(record => headers.map(header => cellText(record[header]))) };
+}
+
+// Split the first row off as headers, giving unnamed columns a placeholder name
+function toTable(rows: unknown[][]): ImportTable {
+  const [header = [], ...data] = rows;
+  const width = data.reduce((widest, row) => Math.max(widest, row.length), header.length);
+  const headers = Array.from({ length: width }, (_, index) => cellText(header[index]) || `Column ${index + 1}`);
+  return {
+    headers,
+    rows: data
+      .map(row => headers.map((_header, index) => cellText(row[index])))
+      .filter(row => row.some(cell => cell !== ''))
+  };
+}
+
+// Read an uploaded CSV, JSON/NDJSON or XLSX file, chosen by its extension
+export async function readImportFile(fileName: string, data: Uint8Array): Promise<ImportTable> {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  if (extension === '.xlsx') {
+    const [sheet] = await readWorkbook(data);
+    if (!sheet) throw new Error('The workbook has no sheets');
+    return toTable(sheet.rows);
+  }
+  if (extension === '.json' || extension === '.ndjson' || extension === '.jsonl') {
+    return readJsonTable(decodeText(data));
+  }
+  if (IMPORT_EXTENSIONS.includes(extension)) {
+    return toTable(parseDelimited(decodeText(data)));
+  }
+  throw new Error(`Cannot import ${extension || 'files without an extension'}; use CSV, JSON, NDJSON or XLSX`);
+}
+
+// Fields a column can be imported into: the schema's own fields, then the record properties
+export function importFieldsFor(fields: SchemaField[]): Record<string, string> {
+  const available: Record<string, string> = {};
+  fields.forEach(field => {
+    if (!isRecordProperty(field.key)) available[field.key] = field.label;
+  });
+  return { ...available, ...importProperties };
+}
+
+// Lowercase a header or label and drop punctuation, for matching
+function simplifyHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Match headers to fields by key, label or usual name; each field is used at most once
+export function guessMapping(headers: string[], fields: SchemaField[]): ImportMapping {
+  const aliases: Record<string, string[]> = { ...headerAliases };
+  fields.filter(field => !isRecordProperty(field.key)).forEach(field => {
+    aliases[field.key] = [simplifyHeader(field.key), simplifyHeader(field.label)];
+  });
+
+  const used = new Set<string>();
+  return headers.map(header => {
+    const simple = simplifyHeader(header);
+    const field = Object.keys(aliases).find(candidate => !used.has(candidate) && aliases[candidate].includes(simple));
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+// A state code for a state column, which may hold a code, a full name or a country
+function importState(value: string): string {
+  const code = value.toUpperCase();
+  if (stateName(code)) return code;
+  const parsed = parseAddress(value).state;
+  return parsed !== 'Unknown' ? parsed : value;
+}
+
+// Check an imported record against the job's fields, returning human-readable problems
+export function validateImportedRecord(charity: Charity, fields: SchemaField[]): string[] {
+  const errors = missingRequired(charity, fields).map(label => `${label} is missing`);
+  if (typeof charity.name !== 'string') errors.push('Name must be text');
+  if (charity.email && !EMAIL_PATTERN.test(charity.email)) errors.push(`"${charity.email}" is not an email address`);
+  if (charity.website) {
+    try {
+      if (!new URL(charity.website).hostname.includes('.')) throw new Error();
+    } catch {
+      errors.push(`"${charity.website}" is not a website address`);
+    }
+  }
+  if (charity.emailConfidence !== undefined
+    && (!Number.isFinite(charity.emailConfidence) || charity.emailConfidence < 0 || charity.emailConfidence > 100)) {
+    errors.push('Email confidence must be a number from 0 to 100');
+  }
+  return errors;
+}
+
+// Build a record from one row's mapped values
+function rowToCharity(values: Partial<Record<string, string>>, fields: SchemaField[], errors: string[]): Charity {
+  const addressParts = [values.street, values.city, [values.state, values.zip].filter(Boolean).join(' ')].filter(Boolean);
+  const address = values.address || addressParts.join(', ');
+  const parsed = parseAddress(address);
+
+  let ein: string | undefined;
+  if (values.ein) {
+    ein = normalizeEin(values.ein) ?? undefined;
+    if (!ein) errors.push(`"${values.ein}" is not a nine-digit EIN`);
+  }
+
+  const website = values.website && !/^[a-z][a-z0-9+.-]*:\/\//i.test(values.website) ? `https://${values.website}` : values.website;
+
+  const extra: Record<string, FieldValue> = {};
+  fields.filter(field => !isRecordProperty(field.key) && values[field.key] !== undefined).forEach(field => {
+    const value = parseFieldInput(values[field.key]!, field);
+    if (value === null) errors.push(`"${values[field.key]}" is not a valid ${field.label}`);
+    extra[field.key] = value;
+  });
+
+  return {
+    name: values.name ?? '',
+    address,
+    ...parsed,
+    ...(values.street ? { street: values.street } : {}),
+    ...(values.city ? { city: values.city } : {}),
+    ...(values.zip ? { zip: values.zip } : {}),
+    ...(values.country ? { country: values.country } : {}),
+    ...(values.state ? { state: importState(values.state), stateInferred: false } : {}),
+    website: website ?? '',
+    email: values.email?.toLowerCase() || null,
+    ...(values.emailConfidence ? { emailConfidence: Number(values.emailConfidence) } : {}),
+    ...(ein ? { ein } : {}),
+    ...(values.detailUrl ? { detailUrl: values.detailUrl } : {}),
+    ...(Object.keys(extra).length > 0 ? { extra } : {})
+  };
+}
+
+// Turn table rows into records of the job's fields through the mapping. Rows with problems are reported and left out.
+export function mapImportRows(table: ImportTable, mapping: ImportMapping, fields: SchemaField[]): ImportResult {
+  const records: Charity[] = [];
+  const errors: ImportRowError[] = [];
+
+  table.rows.forEach((row, rowIndex) => {
+    const values: Partial<Record<string, string>> = {};
+    mapping.forEach((field, column) => {
+      const value = row[column]?.trim() ?? '';
+      if (field && !isPlaceholder(value)) values[field] = value;
+    });
+
+    const rowErrors: string[] = [];
+    const charity = rowToCharity(values, fields, rowErrors);
+    rowErrors.push(...validateImportedRecord(charity, fields));
+    if (rowErrors.length > 0) {
+      errors.push({ row: rowIndex + 2, errors: rowErrors });
+    } else {
+      records.push(charity);
+    }
+  });
+
+  return { records, errors };
+}
+
+// Bring imported records into a dataset
+export function applyImport(dataset: Charity[], records: Charity[], mode: ImportMode): MergeResult {
+  switch (mode) {
+    case 'replace':
+      return { charities: [...records], added: records.length, merged: 0 };
+    case 'merge':
+      return mergeIntoDataset(dataset, records);
+    case 'append':
+      return { charities: [...dataset, ...records], added: records.length, merged: 0 };
+  }
+}
@@ -0,0 +1,465 @@
+import { Charity, PageCursor, PageStoppedError, ScraperConfig, fetchCharityPage } from './scraper';
+import { EnrichmentStats, enrichCharities, getEnrichmentSettings } from './enrichment';
+import { ValidationStats, validateRecords } from './quality';
+import { mergeIntoDataset } from './dedupe';
+import { buildPageUrl } from './pagination';
+import type { IndexedRecord } from './records';
+import {
+  LogCounts,
+  LogEntry,
+  LogEvent,
+  LogSink,
+  appendLogEntry,
+  consoleSink,
+  countLogLevels,
+  createLogEntry,
+  upgradeLogLine
+} from './log';
+import { listKeys, loadJson, removeJson, saveJson } from '../utils/storage';
+
+// Constants
+const JOB_KEY_PREFIX = 'scrapeJob:';
+const RECORDS_KEY_PREFIX = 'scrapeJobRecords:';
+const ACTIVE_JOB_KEY = 'activeJobId';
+export const DEFAULT_BATCH_SIZE = 1000;
+
+// Types
+export type JobStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// A page that could not be scraped; the cursor stays on it so resuming tries it again
+export interface FailedPage {
+  pageNumber: number;
+  url?: string;
+  error: string;
+  failedAt: string;
+}
+
+export interface JobSettings {
+  // Items per batch; a run pauses (or rolls over) when a batch is full
+  batchSize: number;
+  // Roll over into the next batch automatically instead of waiting for Continue
+  untilExhausted: boolean;
+  // Stop the whole job after this many items
+  maxItems?: number;
+  // Pause before an automatic next batch
+  batchDelayMs: number;
+}
+
+export interface ScrapeJob {
+  id: string;
+  // Profile name, or the source URL for runs started from a bare URL
+  name: string;
+  profileId?: string;
+  // Copy of the configuration the job was started with, so later profile edits don't affect it
+  config: ScraperConfig;
+  cursor: PageCursor;
+  // Last page to scrape, when the run is limited to a page range
+  lastPage?: number;
+  charities: Charity[];
+  // Counts changes to the records; each record carries the revision it last changed in
+  revision: number;
+  settings: JobSettings;
+  processedCount: number;
+  // Current batch, counted from 1, and items processed in it
+  batchNumber: number;
+  batchProcessed: number;
+  hasMore: boolean;
+  status: JobStatus;
+  failedPages: FailedPage[];
+  // Most recent log entries; the counts cover every entry, including dropped ones
+  log: LogEntry[];
+  logCounts: LogCounts;
+  createdAt: string;
+  updatedAt: string;
+  // Archived jobs are hidden from the job list by default
+  archivedAt?: string;
+  error?: string;
+}
+
+export interface JobOptions {
+  profileId?: string;
+  firstPage?: number;
+  lastPage?: number;
+  settings?: Partial<JobSettings>;
+}
+
+// A job without its records and log, small enough to send with every progress update
+export type JobSummary = Omit<ScrapeJob, 'charities' | 'log'> & { recordCount: number };
+
+// A job with its log, as the job API returns it
+export type JobDetail = JobSummary & { log: LogEntry[] };
+
+// A job as saved. Its records are kept apart, in chunks that each hold the records one save added,
+// so saving after a page writes that page's records rather than all of them. Jobs saved before
+// then carry their records inline.
+type StoredJob = Omit<ScrapeJob, 'charities'> & {
+  charities?: Charity[];
+  // Records in each chunk
+  recordChunks?: number[];
+};
+
+// A job's records as they were last saved or loaded, split into their chunks
+interface SavedChunks {
+  // When the job was saved, to tell whether another process has saved it since
+  updatedAt: string;
+  chunks: Charity[][];
+}
+
+// Body of a request to create a job
+export interface NewJobRequest {
+  name: string;
+  config: ScraperConfig;
+  options?: JobOptions;
+  // Start scraping straight away
+  start?: boolean;
+}
+
+// Changes that can be made to a saved job
+export interface JobChanges {
+  name?: string;
+  settings?: Partial<JobSettings>;
+  archived?: boolean;
+}
+
+// Records that changed after a revision, for clients that keep a copy of a job's records
+export interface RecordDelta {
+  // Records the job has now; a local copy with more drops the rest
+  total: number;
+  revision: number;
+  changed: IndexedRecord[];
+  // Set when every record is sent, so a local copy starts over
+  full: boolean;
+}
+
+// Progress pushed to clients while jobs run
+export type JobEvent =
+  | { type: 'job'; job: JobSummary }
+  | { type: 'log'; jobId: string; entry: LogEntry }
+  | { type: 'deleted'; jobId: string };
+
+// Result of scraping one page of a job
+export interface PageOutcome {
+  job: ScrapeJob;
+  pageNumber: number;
+  found: number;
+  added: number;
+  merged: number;
+  enrichment?: EnrichmentStats;
+  validation: ValidationStats;
+}
+
+export const defaultJobSettings: JobSettings = {
+  batchSize: DEFAULT_BATCH_SIZE,
+  untilExhausted: false,
+  batchDelayMs: 5000
+};
+
+// Create a unique id for a new job
+function createJobId(): string {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Start a new job from a configuration
+export function createJob(name: string, config: ScraperConfig, options: JobOptions = {}): ScrapeJob {
+  const now = new Date().toISOString();
+  return {
+    id: createJobId(),
+    name,
+    profileId: options.profileId,
+    config: structuredClone(config),
+    cursor: { pageNumber: options.firstPage ?? 1 },
+    lastPage: options.lastPage,
+    charities: [],
+    revision: 0,
+    settings: { ...defaultJobSettings, ...options.settings },
+    processedCount: 0,
+    batchNumber: 1,
+    batchProcessed: 0,
+    hasMore: true,
+    status: 'paused',
+    failedPages: [],
+    log: [],
+    logCounts: { info: 0, warn: 0, error: 0 },
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// The record chunks of each job as last saved or loaded, for telling which ones a save must write.
+// Loading a job that was not saved since hands out the same records, so a run that is saving pages
+// is not made to write everything again when the job is read in between.
+const savedChunks = new Map<string, SavedChunks>();
+
+// Storage key of one of a job's record chunks
+function chunkKey(id: string, chunk: number): string {
+  return `${RECORDS_KEY_PREFIX}${id}:${chunk}`;
+}
+
+// Split records along the chunks they were last saved in, writing only the chunks that changed;
+// records past the last chunk, such as a new page's, go into a new one
+function writeRecordChunks(id: string, charities: Charity[]): Charity[][] {
+  const previous = savedChunks.get(id)?.chunks;
+  // Not saved or loaded since this process started: clear whatever an earlier save left behind
+  if (!previous) listKeys(`${RECORDS_KEY_PREFIX}${id}:`).forEach(removeJson);
+
+  const chunks: Charity[][] = [];
+  let offset = 0;
+  for (const saved of previous ?? []) {
+    if (offset >= charities.length) break;
+    const chunk = charities.slice(offset, offset + saved.length);
+    if (chunk.length !== saved.length || chunk.some((charity, index) => charity !== saved[index])) {
+      saveJson(chunkKey(id, chunks.length), chunk);
+    }
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+  if (offset < charities.length) {
+    const chunk = charities.slice(offset);
+    saveJson(chunkKey(id, chunks.length), chunk);
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+// Save a job, stamping when it last changed. The job itself is written after its record chunks
+// and chunks it no longer has are removed after it, so an interrupted save never leaves it
+// pointing at chunks that are not there.
+export function saveJob(job: ScrapeJob): ScrapeJob {
+  const saved = { ...job, updatedAt: new Date().toISOString() };
+  const previous = savedChunks.get(job.id)?.chunks ?? [];
+  const chunks = writeRecordChunks(job.id, job.charities);
+  const stored: StoredJob = { ...omit(saved, ['charities']), recordChunks: chunks.map(chunk => chunk.length) };
+  saveJson(`${JOB_KEY_PREFIX}${job.id}`, stored);
+  for (let chunk = chunks.length; chunk < previous.length; chunk++) removeJson(chunkKey(job.id, chunk));
+  savedChunks.set(job.id, { updatedAt: saved.updatedAt, chunks });
+  return saved;
+}
+
+// Fill in fields added after a job was saved
+function upgradeJob(job: StoredJob): StoredJob {
+  // Logs used to be timestamped lines of text
+  const log = (job.log ?? []).map(line => upgradeLogLine(line, job.updatedAt, job.id));
+  return {
+    ...job,
+    failedPages: job.failedPages ?? [],
+    log,
+    logCounts: job.logCounts ?? countLogLevels(log),
+    revision: job.revision ?? 0,
+    settings: { ...defaultJobSettings, ...job.settings },
+    batchNumber: job.batchNumber ?? 1,
+    batchProcessed: job.batchProcessed ?? job.processedCount
+  };
+}
+
+// Read a saved job's records, from its chunks or, for jobs saved before there were chunks, inline
+function loadJobRecords(job: StoredJob): Charity[] {
+  if (!job.recordChunks) return job.charities ?? [];
+  const saved = savedChunks.get(job.id);
+  if (saved?.updatedAt === job.updatedAt) return saved.chunks.flat();
+  const chunks = job.recordChunks.map((_, chunk) => loadJson<Charity[]>(chunkKey(job.id, chunk), []));
+  savedChunks.set(job.id, { updatedAt: job.updatedAt, chunks });
+  return chunks.flat();
+}
+
+// Turn a saved job back into a job with its records
+function restoreJob(job: StoredJob): ScrapeJob {
+  return { ...omit(job, ['charities', 'recordChunks']), charities: loadJobRecords(job) };
+}
+
+// Count a saved job's records without reading them, where its chunks allow
+function countJobRecords(job: StoredJob): number {
+  return job.recordChunks?.reduce((total, length) => total + length, 0) ?? job.charities?.length ?? 0;
+}
+
+// Read every saved job, as stored
+function loadStoredJobs(): StoredJob[] {
+  return listKeys(JOB_KEY_PREFIX)
+    .map(key => loadJson<StoredJob | null>(key, null))
+    .filter((job): job is StoredJob => job !== null)
+    .map(upgradeJob)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Load a saved job by id
+export function loadJob(id: string): ScrapeJob | null {
+  const job = loadJson<StoredJob | null>(`${JOB_KEY_PREFIX}${id}`, null);
+  return job && restoreJob(upgradeJob(job));
+}
+
+// All saved jobs, most recently updated first
+export function listJobs(): ScrapeJob[] {
+  return loadStoredJobs().map(restoreJob);
+}
+
+// Summaries of all saved jobs, most recently updated first, read without their records
+export function listJobSummaries(): JobSummary[] {
+  return loadStoredJobs().map(job => ({ ...omit(job, ['charities', 'recordChunks', 'log']), recordCount: countJobRecords(job) }));
+}
+
+// Delete a saved job and its data
+export function deleteJob(id: string): void {
+  removeJson(`${JOB_KEY_PREFIX}${id}`);
+  listKeys(`${RECORDS_KEY_PREFIX}${id}:`).forEach(removeJson);
+  savedChunks.delete(id);
+  if (loadJson<string | null>(ACTIVE_JOB_KEY, null) === id) removeJson(ACTIVE_JOB_KEY);
+}
+
+// Archive or unarchive a job
+export function setJobArchived(job: ScrapeJob, archived: boolean): ScrapeJob {
+  return saveJob({ ...job, archivedAt: archived ? new Date().toISOString() : undefined });
+}
+
+// Remember which job the UI has open, or that none is
+export function setActiveJobId(id: string | null): void {
+  if (id) {
+    saveJson(ACTIVE_JOB_KEY, id);
+  } else {
+    removeJson(ACTIVE_JOB_KEY);
+  }
+}
+
+// Get the id of the job the UI last had open
+export function getActiveJobId(): string | null {
+  return loadJson<string | null>(ACTIVE_JOB_KEY, null);
+}
+
+// Copy an object without some of its properties
+function omit<T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+}
+
+// Strip a job down to what progress updates carry
+export function summarizeJob(job: ScrapeJob): JobSummary {
+  return { ...omit(job, ['charities', 'log']), recordCount: job.charities.length };
+}
+
+// Check whether a job can be started or continued
+export function isResumable(job: Pick<ScrapeJob, 'hasMore' | 'status'>): boolean {
+  return job.hasMore && job.status !== 'cancelled';
+}
+
+// Add an entry to a job's log; it is an info entry unless the event says otherwise
+export function appendJobLog(job: ScrapeJob, message: string, event: Partial<LogEvent> = {}): ScrapeJob {
+  const entry = createLogEntry({ level: 'info', message, ...event }, job.id);
+  return {
+    ...job,
+    log: appendLogEntry(job.log, entry),
+    logCounts: { ...job.logCounts, [entry.level]: job.logCounts[entry.level] + 1 }
+  };
+}
+
+// Replace a job's records, stamping those that changed with a new revision. Records are compared
+// by position and identity, so unchanged ones must be passed through as the same objects.
+export function setJobRecords(job: ScrapeJob, charities: Charity[]): ScrapeJob {
+  const revision = job.revision + 1;
+  let changed = charities.length !== job.charities.length;
+  const stamped = charities.map((charity, index) => {
+    if (charity === job.charities[index]) return charity;
+    changed = true;
+    return { ...charity, revision };
+  });
+  return changed ? { ...job, charities: stamped, revision } : job;
+}
+
+// The records a client is missing when its copy is at a revision; every record when it has none
+// or its revision is newer than the job's, as after a job was restored from a backup
+export function recordChangesSince(job: ScrapeJob, since?: number): RecordDelta {
+  const full = since === undefined || since > job.revision;
+  const changed = job.charities
+    .map((record, index) => ({ index, record }))
+    .filter(({ record }) => full || (record.revision ?? 0) > since);
+  return { total: job.charities.length, revision: job.revision, changed, full };
+}
+
+// Check whether the job's current batch is full
+export function isBatchFull(job: ScrapeJob): boolean {
+  return job.batchProcessed >= job.settings.batchSize;
+}
+
+// Move a job on to its next batch
+export function startNextBatch(job: ScrapeJob): ScrapeJob {
+  return { ...job, batchNumber: job.batchNumber + 1, batchProcessed: 0 };
+}
+
+// Validate job settings, returning human-readable problems
+export function validateJobSettings(settings: JobSettings): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(settings.batchSize) || settings.batchSize < 1) {
+    errors.push('Batch size must be a whole number of at least 1');
+  }
+  if (settings.maxItems !== undefined && (!Number.isInteger(settings.maxItems) || settings.maxItems < 1)) {
+    errors.push('Item cap must be a whole number of at least 1');
+  }
+  if (!Number.isFinite(settings.batchDelayMs) || settings.batchDelayMs < 0) {
+    errors.push('Pause between batches cannot be negative');
+  }
+  return errors;
+}
+
+// Record that the page at the job's cursor failed, leaving the cursor there for a retry
+export function recordPageFailure(job: ScrapeJob, error: unknown): ScrapeJob {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const failure: FailedPage = {
+    pageNumber: job.cursor.pageNumber,
+    url: job.cursor.url ?? (job.config.source === 'live' ? buildPageUrl(job.config, job.cursor.pageNumber) : undefined),
+    error: message,
+    failedAt: new Date().toISOString()
+  };
+  return { ...job, status: 'failed', error: message, failedPages: [...job.failedPages, failure] };
+}
+
+// Scrape the page a job's cursor points at, enrich, merge and validate its items, and move the cursor on.
+// Errors are thrown with the job unchanged, so the same page is tried again on resume; problems
+// that do not stop the page, such as a failed detail page, are sent to the log sink. Once shouldStop
+// says so, detail pages and enrichment end early with a PageStoppedError carrying what was done,
+// which the cursor keeps so the page goes on from there; website checks left undone wait for a later page.
+export async function scrapeJobPage(
+  job: ScrapeJob,
+  log: LogSink = consoleSink,
+  shouldStop: () => boolean = () => false
+): Promise<PageOutcome> {
+  const { pageNumber, unfinished } = job.cursor;
+  // A page stopped during enrichment goes on from the items it had enriched
+  const resumed = unfinished?.stage === 'enrichment' ? unfinished : undefined;
+  const page = resumed?.page ?? await fetchCharityPage(job.cursor, job.config, log, shouldStop);
+  const enrichedBefore = resumed?.enriched ?? [];
+  let charities = [...enrichedBefore, ...page.charities.slice(enrichedBefore.length)];
+
+  let enrichment: EnrichmentStats | undefined;
+  if (getEnrichmentSettings().enabled && charities.length > 0) {
+    const enriched = await enrichCharities(charities.slice(enrichedBefore.length), job.config, log, shouldStop);
+    charities = [...enrichedBefore, ...enriched.charities];
+    enrichment = enriched.stats;
+    if (charities.length < page.charities.length) {
+      throw new PageStoppedError(pageNumber, { stage: 'enrichment', page, enriched: charities });
+    }
+  }
+
+  const { charities: merged, added, merged: mergedCount } = mergeIntoDataset(job.charities, charities);
+  // Merging can change existing records, so the whole dataset is flagged again; websites are only checked once
+  const validated = await validateRecords(merged, job.config, log, shouldStop);
+  const processedCount = job.processedCount + charities.length;
+  const reachedLastPage = job.lastPage !== undefined && pageNumber >= job.lastPage;
+  const reachedItemCap = job.settings.maxItems !== undefined && processedCount >= job.settings.maxItems;
+  const hasMore = page.hasMore && !reachedLastPage && !reachedItemCap;
+
+  return {
+    job: {
+      ...setJobRecords(job, validated.charities),
+      cursor: page.nextCursor,
+      processedCount,
+      batchProcessed: job.batchProcessed + charities.length,
+      hasMore,
+      status: hasMore ? job.status : 'completed',
+      error: undefined
+    },
+    pageNumber,
+    found: charities.length,
+    added,
+    merged: mergedCount,
+    enrichment,
+    validation: validated.stats
+  };
+}
@@ -0,0 +1,113 @@
+import axios from 'axios';
+
+// Types
+export type LogLevel = 'info' | 'warn' | 'error';
+
+// What went wrong, for entries about a failure
+export interface LogError {
+  message: string;
+  // HTTP status of a failed request
+  status?: number;
+  // Network or system error code, e.g. ECONNRESET
+  code?: string;
+  // Individual problems, such as those listed by the scraping server
+  details?: string[];
+}
+
+export interface LogEntry {
+  // ISO timestamp
+  time: string;
+  level: LogLevel;
+  message: string;
+  jobId?: string;
+  pageNumber?: number;
+  url?: string;
+  error?: LogError;
+}
+
+// An entry before it is timestamped and tied to a job
+export type LogEvent = Omit<LogEntry, 'time' | 'jobId'>;
+
+// Receives events from code that does not own a log, such as the scraper and email lookups
+export type LogSink = (event: LogEvent) => void;
+
+export type LogCounts = Record<LogLevel, number>;
+
+// Constants
+// Entries kept per log; older ones are dropped, but still counted
+export const MAX_LOG_ENTRIES = 1000;
+
+export const logLevels: Record<LogLevel, string> = {
+  info: 'Info',
+  warn: 'Warning',
+  error: 'Error'
+};
+
+const levelRank: Record<LogLevel, number> = { info: 0, warn: 1, error: 2 };
+
+// Write events to the console, for runs without a log to keep them in
+export const consoleSink: LogSink = event => {
+  const line = formatLogEntry({ ...event, time: new Date().toISOString() });
+  if (event.level === 'error') console.error(line);
+  else if (event.level === 'warn') console.warn(line);
+  else console.log(line);
+};
+
+// Timestamp an event
+export function createLogEntry(event: LogEvent, jobId?: string): LogEntry {
+  return { time: new Date().toISOString(), ...(jobId ? { jobId } : {}), ...event };
+}
+
+// Describe a caught error, keeping the HTTP status, error code and listed problems when there are any
+export function errorDetails(error: unknown): LogError {
+  if (axios.isAxiosError(error)) {
+    return { message: error.message, status: error.response?.status, code: error.code };
+  }
+  if (error instanceof Error) {
+    const { status, details } = error as Error & { status?: number; details?: string[] };
+    return {
+      message: error.message,
+      ...(typeof status === 'number' ? { status } : {}),
+      ...(Array.isArray(details) && details.length > 0 ? { details } : {})
+    };
+  }
+  return { message: typeof error === 'string' ? error : 'Unknown error' };
+}
+
+// Add an entry to a log, keeping only the most recent entries
+export function appendLogEntry(log: LogEntry[], entry: LogEntry): LogEntry[] {
+  return [...log, entry].slice(-MAX_LOG_ENTRIES);
+}
+
+// Count entries by level
+export function countLogLevels(log: LogEntry[]): LogCounts {
+  const counts: LogCounts = { info: 0, warn: 0, error: 0 };
+  log.forEach(entry => counts[entry.level]++);
+  return counts;
+}
+
+// Check whether an entry is at least as severe as a level
+export function isAtLeast(entry: LogEntry, level: LogLevel): boolean {
+  return levelRank[entry.level] >= levelRank[level];
+}
+
+// Turn a line from a log saved before entries were structured into an entry
+export function upgradeLogLine(line: string | LogEntry, time: string, jobId?: string): LogEntry {
+  if (typeof line !== 'string') return line;
+  const message = line.replace(/^\[[^\]]*\]\s*/, '');
+  return { time, ...(jobId ? { jobId } : {}), level: /^error\b/i.test(message) ? 'error' : 'info', message };
+}
+
+// One line of text for an entry, as the command line prints it
+export function formatLogEntry(entry: LogEntry): string {
+  const level = entry.level === 'info' ? '' : `${entry.level.toUpperCase()} `;
+  const error = entry.error
+    ? ` — ${entry.error.message}${entry.error.status ? ` (HTTP ${entry.error.status})` : ''}`
+    : '';
+  return `[${new Date(entry.time).toLocaleTimeString()}] ${level}${entry.message}${entry.url ? ` (${entry.url})` : ''}${error}`;
+}
+
+// Serialize entries as newline-delimited JSON, one entry per line
+export function toNdjson(log: LogEntry[]): string {
+  return log.map(entry => `${JSON.stringify(entry)}\n`).join('');
+}
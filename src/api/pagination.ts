@@ -0,0 +1,128 @@
+import type { Charity, PageCursor, PageResult, ScraperConfig } from './scraper';
+
+// Types
+export type PaginationMode = 'page' | 'offset' | 'nextLink';
+
+export interface PaginationConfig {
+  mode: PaginationMode;
+  // Page mode: number the site uses for its first page (usually 0 or 1)
+  firstPage?: number;
+  // Offset mode: offset of the first page and items per page
+  offsetStart?: number;
+  offsetStep?: number;
+  // Stop conditions
+  maxPages?: number;
+  stopOnEmpty?: boolean;
+  stopOnRepeat?: boolean;
+}
+
+// Defaults applied to profiles saved before pagination was configurable
+const defaultPagination: Required<Omit<PaginationConfig, 'maxPages'>> = {
+  mode: 'page',
+  firstPage: 1,
+  offsetStart: 0,
+  offsetStep: 10,
+  stopOnEmpty: true,
+  stopOnRepeat: true
+};
+
+export const paginationModes: Record<PaginationMode, string> = {
+  page: 'Page number ({page} in the URL, or appended)',
+  offset: 'Offset / limit ({offset} and {limit} in the URL)',
+  nextLink: 'Follow the next page link'
+};
+
+// Get the pagination settings of a configuration with defaults filled in
+export function getPagination(config: ScraperConfig): PaginationConfig & typeof defaultPagination {
+  return { ...defaultPagination, ...config.pagination };
+}
+
+// Build the URL of a page from the configured source URL
+export function buildPageUrl(config: ScraperConfig, pageNumber: number): string {
+  const pagination = getPagination(config);
+  const { sourceUrl } = config;
+
+  switch (pagination.mode) {
+    case 'nextLink':
+      // Later pages come from the previous page's next link
+      return sourceUrl;
+    case 'offset': {
+      const offset = String(pagination.offsetStart + (pageNumber - 1) * pagination.offsetStep);
+      if (!sourceUrl.includes('{offset}')) {
+        return `${sourceUrl}${offset}`;
+      }
+      return sourceUrl
+        .replace(/\{offset\}/g, offset)
+        .replace(/\{limit\}/g, String(pagination.offsetStep));
+    }
+    default: {
+      const page = String(pagination.firstPage + pageNumber - 1);
+      return sourceUrl.includes('{page}') ? sourceUrl.replace(/\{page\}/g, page) : `${sourceUrl}${page}`;
+    }
+  }
+}
+
+// Summarize a page's items so a page that repeats the previous one can be spotted
+function fingerprint(charities: Charity[]): string {
+  return charities
+    .map(charity => `${charity.name}|${charity.detailUrl ?? charity.website}${charity.extra ? `|${JSON.stringify(charity.extra)}` : ''}`)
+    .join('\n');
+}
+
+// Decide whether to continue after a page and where to go next
+export function advanceCursor(
+  config: ScraperConfig,
+  cursor: PageCursor,
+  charities: Charity[],
+  nextLink: { found: boolean; url?: string }
+): PageResult {
+  const pagination = getPagination(config);
+  const pageFingerprint = fingerprint(charities);
+  const nextCursor: PageCursor = { pageNumber: cursor.pageNumber + 1, previousFingerprint: pageFingerprint };
+  const stop = (items: Charity[]): PageResult => ({ charities: items, hasMore: false, nextCursor });
+
+  if (charities.length === 0 && pagination.stopOnEmpty) {
+    return stop([]);
+  }
+
+  // Sites often serve their last page again for out-of-range page numbers
+  if (charities.length > 0 && pagination.stopOnRepeat && pageFingerprint === cursor.previousFingerprint) {
+    return stop([]);
+  }
+
+  if (pagination.maxPages !== undefined && cursor.pageNumber >= pagination.maxPages) {
+    return stop(charities);
+  }
+
+  if (pagination.mode === 'nextLink') {
+    return nextLink.url ? { charities, hasMore: true, nextCursor: { ...nextCursor, url: nextLink.url } } : stop(charities);
+  }
+
+  // With a next page selector configured, a missing link means this was the last page
+  if (config.selectors.nextPage && !nextLink.found) {
+    return stop(charities);
+  }
+
+  return { charities, hasMore: true, nextCursor };
+}
+
+// Validate pagination settings, returning human-readable problems
+export function validatePagination(config: ScraperConfig): string[] {
+  const pagination = getPagination(config);
+  const errors: string[] = [];
+
+  if (pagination.mode === 'nextLink' && !config.selectors.nextPage?.trim()) {
+    errors.push('Following next page links requires a next page selector');
+  }
+  if (pagination.mode === 'offset' && (!Number.isInteger(pagination.offsetStep) || pagination.offsetStep < 1)) {
+    errors.push('Offset step must be a whole number of at least 1');
+  }
+  if (pagination.maxPages !== undefined && (!Number.isInteger(pagination.maxPages) || pagination.maxPages < 1)) {
+    errors.push('Max pages must be a whole number of at least 1');
+  }
+  if (!pagination.stopOnEmpty && pagination.maxPages === undefined && pagination.mode !== 'nextLink') {
+    errors.push('Set a max page count when empty pages do not stop the run');
+  }
+
+  return errors;
+}
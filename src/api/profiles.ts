@@ -0,0 +1,254 @@
+import * as cheerio from 'cheerio';
+import type { ScraperConfig } from './scraper';
+import { validatePagination } from './pagination';
+import { validateFetchSettings } from './fetcher';
+import { validateRenderSettings } from './renderer';
+import { validateSchema } from './schema';
+import { loadJson, saveJson } from '../utils/storage';
+
+// Types
+export interface ScraperProfile {
+  id: string;
+  name: string;
+  config: ScraperConfig;
+}
+
+interface ProfileStore {
+  activeId: string;
+  profiles: ScraperProfile[];
+}
+
+// Constants
+const STORAGE_KEY = 'scraperProfiles';
+
+// Profiles shipped with the tool; they can be edited but are recreated if the store is empty
+const builtInProfiles: ScraperProfile[] = [
+  {
+    id: 'charity-navigator',
+    name: 'Charity Navigator',
+    config: {
+      source: 'live',
+      sourceUrl: 'https://www.charitynavigator.org/search?page={page}',
+      selectors: {
+        items: '.search-result',
+        name: 'a.link-primary',
+        address: '.cn-address',
+        website: 'a[href^="http"]:not([href*="charitynavigator.org"])',
+        nextPage: 'a[rel="next"], a[aria-label="Next Page"]'
+      },
+      pagination: { mode: 'page', stopOnEmpty: true, stopOnRepeat: true },
+      // Search results are rendered client-side
+      render: { mode: 'browser' }
+    }
+  },
+  {
+    id: 'goodfirms-it-services',
+    name: 'GoodFirms IT services',
+    config: {
+      source: 'live',
+      sourceUrl: 'https://www.goodfirms.co/it-services/ukraine?services%5B18%5D=23&page={page}',
+      selectors: {
+        items: '.firm-wrapper',
+        name: '.firm-name a',
+        address: '.firm-location',
+        website: 'a.visit-website',
+        nextPage: 'a[rel="next"]',
+        detailLink: "a[href*='/company/']"
+      },
+      detailSelectors: {
+        name: '.profile-header-title',
+        website: '.visit-website-btn'
+      },
+      detailConcurrency: 3,
+      pagination: { mode: 'page', stopOnEmpty: true, stopOnRepeat: true },
+      render: { mode: 'browser' }
+    }
+  }
+];
+
+let store: ProfileStore = loadStore();
+
+// Read the profile store from localStorage, falling back to the built-in profiles
+function loadStore(): ProfileStore {
+  const saved = loadJson<ProfileStore | null>(STORAGE_KEY, null);
+  if (saved && Array.isArray(saved.profiles) && saved.profiles.length > 0) {
+    return saved;
+  }
+
+  return {
+    activeId: builtInProfiles[0].id,
+    profiles: builtInProfiles.map(profile => structuredClone(profile))
+  };
+}
+
+// Write the profile store back to localStorage
+function persistStore(): void {
+  saveJson(STORAGE_KEY, store);
+}
+
+// Create a reasonably unique profile id
+function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Get all saved profiles
+export function listProfiles(): ScraperProfile[] {
+  return store.profiles;
+}
+
+// Get the profile used for scraping
+export function getActiveProfile(): ScraperProfile {
+  return store.profiles.find(profile => profile.id === store.activeId) ?? store.profiles[0];
+}
+
+// Switch the profile used for scraping
+export function setActiveProfile(id: string): ScraperProfile {
+  const profile = store.profiles.find(p => p.id === id);
+  if (!profile) {
+    throw new Error(`Profile not found: ${id}`);
+  }
+
+  store = { ...store, activeId: id };
+  persistStore();
+  return profile;
+}
+
+// Create or replace a profile
+export function saveProfile(profile: ScraperProfile): ScraperProfile {
+  const exists = store.profiles.some(p => p.id === profile.id);
+  store = {
+    ...store,
+    profiles: exists
+      ? store.profiles.map(p => (p.id === profile.id ? profile : p))
+      : [...store.profiles, profile]
+  };
+  persistStore();
+  return profile;
+}
+
+// Copy a profile under a new id and name
+export function duplicateProfile(id: string, name?: string): ScraperProfile {
+  const original = store.profiles.find(p => p.id === id);
+  if (!original) {
+    throw new Error(`Profile not found: ${id}`);
+  }
+
+  return saveProfile({
+    id: createProfileId(),
+    name: name || `${original.name} (copy)`,
+    config: structuredClone(original.config)
+  });
+}
+
+// Delete a profile; the last remaining profile cannot be deleted
+export function deleteProfile(id: string): void {
+  if (store.profiles.length <= 1) {
+    throw new Error('Cannot delete the only profile');
+  }
+
+  const profiles = store.profiles.filter(p => p.id !== id);
+  store = {
+    activeId: store.activeId === id ? profiles[0].id : store.activeId,
+    profiles
+  };
+  persistStore();
+}
+
+// Serialize profiles to JSON for sharing
+export function exportProfiles(ids: string[]): string {
+  const profiles = store.profiles.filter(p => ids.includes(p.id));
+  return JSON.stringify({ profiles }, null, 2);
+}
+
+// Check that an unknown value looks like a profile
+function isProfile(value: unknown): value is ScraperProfile {
+  const candidate = value as ScraperProfile;
+  return (
+    typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.config === 'object' && candidate.config !== null &&
+    typeof candidate.config.sourceUrl === 'string' &&
+    typeof candidate.config.selectors === 'object' && candidate.config.selectors !== null &&
+    typeof candidate.config.selectors.items === 'string' &&
+    typeof candidate.config.selectors.name === 'string'
+  );
+}
+
+// Read profiles from JSON produced by exportProfiles (or a single bare profile) without saving them
+export function parseProfiles(json: string): ScraperProfile[] {
+  const parsed = JSON.parse(json);
+  const candidates: unknown[] = Array.isArray(parsed?.profiles) ? parsed.profiles : [parsed];
+
+  if (candidates.length === 0 || !candidates.every(isProfile)) {
+    throw new Error('File does not contain valid scraper profiles');
+  }
+  return candidates as ScraperProfile[];
+}
+
+// Import profiles from JSON produced by exportProfiles (or a single bare profile)
+export function importProfiles(json: string): ScraperProfile[] {
+  return parseProfiles(json).map(profile => {
+    // Never overwrite an existing profile on import
+    const idTaken = !profile.id || store.profiles.some(p => p.id === profile.id);
+    return saveProfile({
+      id: idTaken ? createProfileId() : profile.id,
+      name: profile.name,
+      config: { ...profile.config, source: profile.config.source ?? 'live' }
+    });
+  });
+}
+
+// Check that a CSS selector can be parsed
+function isValidSelector(selector: string): boolean {
+  try {
+    cheerio.load('')(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Validate a configuration, returning human-readable problems (empty when valid)
+export function validateScraperConfig(config: ScraperConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.source === 'live') {
+    try {
+      const { protocol } = new URL(config.sourceUrl);
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        errors.push('Source URL must use http or https');
+      }
+    } catch {
+      errors.push(`Source URL is not a valid URL: ${config.sourceUrl || '(empty)'}`);
+    }
+  }
+
+  if (!config.selectors.items.trim()) errors.push('Items selector is required');
+  if (config.fields && config.fields.length > 0) {
+    errors.push(...validateSchema(config.fields, isValidSelector));
+  } else if (!config.selectors.name.trim() && !config.detailSelectors?.name?.trim()) {
+    errors.push('Name selector is required');
+  }
+
+  for (const [field, selector] of Object.entries(config.selectors)) {
+    if (selector && selector.trim() && !isValidSelector(selector)) {
+      errors.push(`Invalid ${field} selector: ${selector}`);
+    }
+  }
+
+  for (const [field, selector] of Object.entries(config.detailSelectors ?? {})) {
+    if (selector && selector.trim() && !isValidSelector(selector)) {
+      errors.push(`Invalid detail page ${field} selector: ${selector}`);
+    }
+  }
+
+  if (config.detailConcurrency !== undefined && (!Number.isInteger(config.detailConcurrency) || config.detailConcurrency < 1)) {
+    errors.push('Detail page concurrency must be a whole number of at least 1');
+  }
+
+  errors.push(...validatePagination(config));
+  errors.push(...validateFetchSettings(config));
+  errors.push(...validateRenderSettings(config));
+
+  return errors;
+}
@@ -0,0 +1,231 @@
+import type { Charity, ScraperConfig } from './scraper';
+import { politeGet } from './fetcher';
+import { LogSink, consoleSink, errorDetails } from './log';
+import { SchemaField, getSchema } from './schema';
+import { mapUntilStopped } from '../utils/concurrency';
+import { extractDomain } from '../utils/url';
+
+// Types
+export type QualityFlag =
+  | 'missingName'
+  | 'unparsedAddress'
+  | 'unknownState'
+  | 'invalidEmail'
+  | 'emailDomainMismatch'
+  | 'websiteUnreachable'
+  | 'websiteRedirected'
+  | 'roleEmail'
+  | 'personalEmail';
+
+// Errors mark records that are not usable leads, warnings ones worth a look; info flags only describe the record
+export type QualitySeverity = 'error' | 'warning' | 'info';
+
+// What loading a record's website showed
+export type WebsiteStatus = 'ok' | 'unreachable' | 'redirected';
+
+// Which records an export keeps, by their quality flags
+export type QualityFilter = 'all' | 'noErrors' | 'clean' | 'flagged';
+
+export interface ValidationConfig {
+  // Load each record's website once to flag sites that are down or redirect to another domain
+  checkWebsites?: boolean;
+}
+
+export interface QualityReport {
+  total: number;
+  // Records with no error or warning flags
+  clean: number;
+  withErrors: number;
+  withWarnings: number;
+  // Records carrying each flag
+  flags: Record<QualityFlag, number>;
+}
+
+export interface ValidationStats {
+  websitesChecked: number;
+  websitesUnreachable: number;
+  websitesRedirected: number;
+}
+
+// Constants
+export const qualityFlags: Record<QualityFlag, { label: string; severity: QualitySeverity }> = {
+  missingName: { label: 'Missing name', severity: 'error' },
+  unparsedAddress: { label: 'Address could not be parsed', severity: 'warning' },
+  unknownState: { label: 'Unknown state', severity: 'warning' },
+  invalidEmail: { label: 'Invalid email', severity: 'error' },
+  emailDomainMismatch: { label: 'Email domain differs from the website', severity: 'warning' },
+  websiteUnreachable: { label: 'Website unreachable', severity: 'error' },
+  websiteRedirected: { label: 'Website redirects to another domain', severity: 'warning' },
+  roleEmail: { label: 'Role address (info@, contact@…)', severity: 'info' },
+  personalEmail: { label: 'Personal address', severity: 'info' }
+};
+
+export const qualityFilters: Record<QualityFilter, string> = {
+  all: 'Every record',
+  noErrors: 'Leave out records with errors',
+  clean: 'Leave out records with errors or warnings',
+  flagged: 'Only records with errors or warnings'
+};
+
+const WEBSITE_CHECK_CONCURRENCY = 3;
+
+// Text that sites, exports and older scripts write in place of a missing value
+const placeholderValues = new Set(['', 'unknown', 'not found', 'n/a', 'na', 'none', 'null', '-']);
+
+// Stricter than the check on typed-in emails: a dotted domain of letters, digits and hyphens
+const EMAIL_PATTERN = /^[A-Z0-9._%+-]+@[A-Z0-9-]+(\.[A-Z0-9-]+)*\.[A-Z]{2,}$/i;
+
+// Mailbox names that belong to a function rather than a person
+const roleMailboxes = new Set([
+  'info', 'contact', 'contactus', 'hello', 'office', 'admin', 'administrator', 'mail', 'email', 'general',
+  'enquiries', 'enquiry', 'inquiries', 'inquiry', 'support', 'help', 'service', 'sales', 'team', 'staff',
+  'donate', 'donations', 'giving', 'development', 'fundraising', 'volunteer', 'volunteers', 'events',
+  'press', 'media', 'communications', 'marketing', 'programs', 'membership', 'members', 'hr', 'jobs',
+  'careers', 'billing', 'accounts', 'finance', 'webmaster', 'postmaster', 'noreply', 'no-reply'
+]);
+
+// Check whether text is empty or stands in for a missing value, such as "Not Found"
+export function isPlaceholder(value: string | null | undefined): boolean {
+  return placeholderValues.has((value ?? '').trim().toLowerCase());
+}
+
+// Check whether two domains are the same site, allowing one to be a subdomain of the other
+function sameSite(a: string, b: string): boolean {
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+// Work out a record's quality flags. Only fields in the schema are checked, so a profile
+// without addresses never has its records flagged for one.
+export function assessQuality(charity: Charity, fields: SchemaField[]): QualityFlag[] {
+  const keys = new Set(fields.map(field => field.key));
+  const flags: QualityFlag[] = [];
+
+  if (keys.has('name') && isPlaceholder(charity.name)) flags.push('missingName');
+  if (keys.has('address') && (isPlaceholder(charity.address) || (!charity.city && !charity.zip))) flags.push('unparsedAddress');
+  if (keys.has('state') && (!charity.state || charity.state === 'Unknown')) flags.push('unknownState');
+
+  const email = charity.email?.trim();
+  if (keys.has('email') && email) {
+    if (!EMAIL_PATTERN.test(email)) {
+      flags.push('invalidEmail');
+    } else {
+      const [mailbox, domain] = email.toLowerCase().split('@');
+      const site = extractDomain(charity.website);
+      if (site && !sameSite(domain, site)) flags.push('emailDomainMismatch');
+      flags.push(roleMailboxes.has(mailbox.split('+')[0]) ? 'roleEmail' : 'personalEmail');
+    }
+  }
+
+  if (charity.websiteStatus === 'unreachable') flags.push('websiteUnreachable');
+  if (charity.websiteStatus === 'redirected') flags.push('websiteRedirected');
+  return flags;
+}
+
+// Set each record's quality flags from its current values. Records whose flags are unchanged are
+// kept as they are, so jobs only see the records that really changed.
+export function withQualityFlags(charities: Charity[], fields: SchemaField[]): Charity[] {
+  return charities.map(charity => {
+    const flags = assessQuality(charity, fields);
+    const unchanged = charity.qualityFlags?.length === flags.length && flags.every((flag, index) => charity.qualityFlags?.[index] === flag);
+    return unchanged ? charity : { ...charity, qualityFlags: flags };
+  });
+}
+
+// Check whether any of the flags is of a severity
+export function hasSeverity(flags: QualityFlag[] = [], severity: QualitySeverity): boolean {
+  return flags.some(flag => qualityFlags[flag]?.severity === severity);
+}
+
+// Check a record's flags against a quality filter
+export function matchesQualityFilter(flags: QualityFlag[] = [], filter: QualityFilter): boolean {
+  const hasErrors = hasSeverity(flags, 'error');
+  const isFlagged = hasErrors || hasSeverity(flags, 'warning');
+  switch (filter) {
+    case 'noErrors':
+      return !hasErrors;
+    case 'clean':
+      return !isFlagged;
+    case 'flagged':
+      return isFlagged;
+    default:
+      return true;
+  }
+}
+
+// Count records by flag and severity
+export function summarizeQuality(charities: Charity[], fields: SchemaField[]): QualityReport {
+  const flagCounts = Object.fromEntries(Object.keys(qualityFlags).map(flag => [flag, 0])) as Record<QualityFlag, number>;
+  const report: QualityReport = { total: charities.length, clean: 0, withErrors: 0, withWarnings: 0, flags: flagCounts };
+
+  charities.forEach(charity => {
+    const flags = assessQuality(charity, fields);
+    flags.forEach(flag => flagCounts[flag]++);
+    const hasErrors = hasSeverity(flags, 'error');
+    const hasWarnings = hasSeverity(flags, 'warning');
+    if (hasErrors) report.withErrors++;
+    if (hasWarnings) report.withWarnings++;
+    if (!hasErrors && !hasWarnings) report.clean++;
+  });
+  return report;
+}
+
+// Load a website's home page and see where it ends up
+async function checkWebsite(
+  url: string,
+  config: ScraperConfig,
+  shouldStop: () => boolean
+): Promise<Pick<Charity, 'websiteStatus' | 'websiteFinalUrl'>> {
+  // A single visit to see whether the site answers is not crawling, so robots.txt is not consulted
+  const response = await politeGet(url, config, { checkRobots: false, shouldStop });
+  // Node reports the URL after redirects on the response stream, browsers on the request
+  const request = response.request as { res?: { responseUrl?: string }; responseURL?: string } | undefined;
+  const finalUrl = request?.res?.responseUrl || request?.responseURL || url;
+
+  const domain = extractDomain(url);
+  const finalDomain = extractDomain(finalUrl);
+  if (domain && finalDomain && !sameSite(domain, finalDomain)) {
+    return { websiteStatus: 'redirected', websiteFinalUrl: finalUrl };
+  }
+  return { websiteStatus: 'ok' };
+}
+
+// Check the websites of records that have not been checked yet. Once shouldStop says so no new
+// checks start; the records left are checked with a later page, as they still have no status.
+async function checkWebsites(
+  charities: Charity[],
+  config: ScraperConfig,
+  log: LogSink,
+  stats: ValidationStats,
+  shouldStop: () => boolean
+): Promise<Charity[]> {
+  const checked = await mapUntilStopped(charities, WEBSITE_CHECK_CONCURRENCY, async charity => {
+    if (charity.websiteStatus || !extractDomain(charity.website)) return charity;
+
+    let result: Pick<Charity, 'websiteStatus' | 'websiteFinalUrl'>;
+    try {
+      result = await checkWebsite(charity.website, config, shouldStop);
+    } catch (error) {
+      // A check cut short by a stop is left for a later page
+      if (shouldStop()) throw error;
+      log({ level: 'warn', message: `Website of ${isPlaceholder(charity.name) ? 'a record' : charity.name} is unreachable`, url: charity.website, error: errorDetails(error) });
+      result = { websiteStatus: 'unreachable' };
+    }
+    stats.websitesChecked++;
+    if (result.websiteStatus === 'redirected') stats.websitesRedirected++;
+    if (result.websiteStatus === 'unreachable') stats.websitesUnreachable++;
+    return { ...charity, ...result };
+  }, shouldStop);
+  return [...checked, ...charities.slice(checked.length)];
+}
+
+// The validation stage: check websites when the profile asks for it, then flag each record
+export async function validateRecords(
+  charities: Charity[],
+  config: ScraperConfig,
+  log: LogSink = consoleSink,
+  shouldStop: () => boolean = () => false
+): Promise<{ charities: Charity[]; stats: ValidationStats }> {
+  const stats: ValidationStats = { websitesChecked: 0, websitesUnreachable: 0, websitesRedirected: 0 };
+  const checked = config.validation?.checkWebsites ? await checkWebsites(charities, config, log, stats, shouldStop) : charities;
+  return { charities: withQualityFlags(checked, getSchema(config)), stats };
+}
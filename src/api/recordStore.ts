@@ -0,0 +1,256 @@
+import type { Charity, ScraperConfig } from './scraper';
+import { JobSettings, RecordDelta, deleteJob, listJobs, loadJob, saveJob } from './jobs';
+import { fetchRecordChanges } from './client';
+import { isPlaceholder } from './quality';
+import type { IndexedRecord } from './records';
+import { extractDomain } from '../utils/url';
+import { loadJson, removeJson, saveJson } from '../utils/storage';
+
+// Types
+// A job's records as the browser last synced them
+export interface SyncedRecords {
+  jobId: string;
+  revision: number;
+  records: Charity[];
+}
+
+// Records the app kept in localStorage before jobs ran on the server, waiting to be moved there
+export interface LegacyDataset {
+  // Storage key, or job id for saved jobs
+  source: string;
+  name: string;
+  config?: ScraperConfig;
+  settings?: JobSettings;
+  records: Charity[];
+}
+
+// A record as stored, under its job and position, with the values it is looked up by
+interface StoredRecord {
+  jobId: string;
+  index: number;
+  state: string;
+  domain: string;
+  record: Charity;
+}
+
+// How far a job's stored records are synced
+interface SyncState {
+  jobId: string;
+  revision: number;
+  total: number;
+}
+
+// Values stored records can be looked up by within a job
+export type RecordIndex = 'state' | 'domain';
+
+// Constants
+const DB_NAME = 'charityScraper';
+const RECORDS = 'records';
+const SYNC_STATE = 'syncState';
+// Written by the app before records moved to IndexedDB, then to the scraping server
+const LEGACY_DATA_KEY = 'scrapedData';
+
+// Schema changes, one per database version. Records are stored whole, so new Charity fields need
+// no migration; one that clears the sync state makes every job load in full again, for when
+// stored records must pick up values only the server fills in.
+const migrations: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  db => {
+    const records = db.createObjectStore(RECORDS, { keyPath: ['jobId', 'index'] });
+    records.createIndex('jobId', 'jobId');
+    db.createObjectStore(SYNC_STATE, { keyPath: 'jobId' });
+  },
+  (_db, transaction) => {
+    const records = transaction.objectStore(RECORDS);
+    records.createIndex('state', ['jobId', 'state']);
+    records.createIndex('domain', ['jobId', 'domain']);
+    // Records stored before then lack the values the indexes read
+    const cursor = records.openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result) return;
+      const { jobId, index, record } = cursor.result.value as StoredRecord;
+      cursor.result.update(toStored(jobId, index, record));
+      cursor.result.continue();
+    };
+  }
+];
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Wait for an IndexedDB request
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Wait for a transaction to be written
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'));
+  });
+}
+
+// Open the database once, running the migrations it has not had yet
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, migrations.length);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < migrations.length; version++) {
+          migrations[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Close other tabs of the app to upgrade its database'));
+    });
+    // Let a later call try again, for example once other tabs are closed
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+// Every stored position of a job from a position on
+function positionsFrom(jobId: string, index: number): IDBKeyRange {
+  return IDBKeyRange.bound([jobId, index], [jobId, Infinity]);
+}
+
+// Build the stored form of a record
+function toStored(jobId: string, index: number, record: Charity): StoredRecord {
+  return { jobId, index, state: record.state || 'Unknown', domain: extractDomain(record.website) ?? '', record };
+}
+
+// Load a job's stored records, or null when none are stored
+export async function loadLocalRecords(jobId: string): Promise<SyncedRecords | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDS, SYNC_STATE], 'readonly');
+  const [state, stored] = await Promise.all([
+    requestResult<SyncState | undefined>(transaction.objectStore(SYNC_STATE).get(jobId)),
+    requestResult<StoredRecord[]>(transaction.objectStore(RECORDS).getAll(positionsFrom(jobId, 0)))
+  ]);
+  if (!state) return null;
+  return { jobId, revision: state.revision, records: stored.slice(0, state.total).map(row => row.record) };
+}
+
+// Find a job's stored records by state or website domain without loading the rest, or null when
+// the stored records are not at the given revision
+export async function findLocalRecords(
+  jobId: string,
+  by: RecordIndex,
+  value: string,
+  revision: number
+): Promise<IndexedRecord[] | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDS, SYNC_STATE], 'readonly');
+  const [state, stored] = await Promise.all([
+    requestResult<SyncState | undefined>(transaction.objectStore(SYNC_STATE).get(jobId)),
+    requestResult<StoredRecord[]>(transaction.objectStore(RECORDS).index(by).getAll([jobId, value]))
+  ]);
+  if (state?.revision !== revision) return null;
+  return stored.filter(row => row.index < state.total).map(({ index, record }) => ({ index, record }));
+}
+
+// Write the records that changed, rather than the whole dataset
+export async function saveRecordDelta(jobId: string, delta: RecordDelta): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDS, SYNC_STATE], 'readwrite');
+  const records = transaction.objectStore(RECORDS);
+  records.delete(positionsFrom(jobId, delta.full ? 0 : delta.total));
+  delta.changed.forEach(({ index, record }) => records.put(toStored(jobId, index, record)));
+  transaction.objectStore(SYNC_STATE).put({ jobId, revision: delta.revision, total: delta.total } satisfies SyncState);
+  await transactionDone(transaction);
+}
+
+// Delete a job's stored records
+export async function deleteLocalRecords(jobId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDS, SYNC_STATE], 'readwrite');
+  transaction.objectStore(RECORDS).delete(positionsFrom(jobId, 0));
+  transaction.objectStore(SYNC_STATE).delete(jobId);
+  await transactionDone(transaction);
+}
+
+// Delete the stored records of jobs that no longer exist
+export async function pruneLocalRecords(jobIds: string[]): Promise<void> {
+  const db = await openDatabase();
+  const stored = await requestResult(db.transaction(SYNC_STATE, 'readonly').objectStore(SYNC_STATE).getAllKeys());
+  const keep = new Set(jobIds);
+  await Promise.all(stored.map(String).filter(jobId => !keep.has(jobId)).map(deleteLocalRecords));
+}
+
+// Apply a delta to a copy of a job's records
+export function applyRecordDelta(records: Charity[], delta: RecordDelta): Charity[] {
+  const next = delta.full ? [] : records.slice(0, delta.total);
+  delta.changed.forEach(({ index, record }) => {
+    next[index] = record;
+  });
+  return next.slice(0, delta.total);
+}
+
+// Bring a job's records up to date, fetching only what changed since the copy in memory or in
+// IndexedDB. Without IndexedDB, as in some private windows, the records are fetched in full each time.
+export async function syncJobRecords(jobId: string, current: SyncedRecords | null): Promise<SyncedRecords> {
+  let local = current?.jobId === jobId ? current : null;
+  if (!local) {
+    try {
+      local = await loadLocalRecords(jobId);
+    } catch (error) {
+      console.error('Could not read records from IndexedDB:', error);
+    }
+  }
+
+  const delta = await fetchRecordChanges(jobId, local?.revision);
+  try {
+    await saveRecordDelta(jobId, delta);
+  } catch (error) {
+    console.error('Could not save records to IndexedDB:', error);
+  }
+  return { jobId, revision: delta.revision, records: applyRecordDelta(local?.records ?? [], delta) };
+}
+
+// Clear the text older versions wrote for missing values, such as "Not Found"
+function cleanLegacyRecord(record: Charity): Charity {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, typeof value === 'string' && isPlaceholder(value) ? '' : value])
+  ) as unknown as Charity;
+}
+
+// Find records left in localStorage by older versions: the single dataset and jobs run in the browser
+export function findLegacyDatasets(): LegacyDataset[] {
+  const datasets: LegacyDataset[] = listJobs()
+    .filter(job => job.charities.length > 0)
+    .map(job => ({ source: job.id, name: job.name, config: job.config, settings: job.settings, records: job.charities }));
+  const records = loadJson<Charity[]>(LEGACY_DATA_KEY, []);
+  if (Array.isArray(records) && records.length > 0) {
+    datasets.push({ source: LEGACY_DATA_KEY, name: 'Records saved in this browser', records });
+  }
+  return datasets.map(dataset => ({ ...dataset, records: dataset.records.map(cleanLegacyRecord) }));
+}
+
+// Keep only some of a legacy dataset's records, such as those that could not be moved to the server
+export function keepLegacyRecords(dataset: LegacyDataset, records: Charity[]): void {
+  if (dataset.source === LEGACY_DATA_KEY) {
+    saveJson(LEGACY_DATA_KEY, records);
+    return;
+  }
+  const job = loadJob(dataset.source);
+  if (job) saveJob({ ...job, charities: records });
+}
+
+// Remove a legacy dataset once it has been moved to the server
+export function removeLegacyDataset(dataset: LegacyDataset): void {
+  if (dataset.source === LEGACY_DATA_KEY) {
+    removeJson(LEGACY_DATA_KEY);
+  } else {
+    deleteJob(dataset.source);
+  }
+}
@@ -0,0 +1,128 @@
+import type { Charity } from './scraper';
+import { FieldValue, SchemaField, coerceValue, formatFieldValue, getFieldValue, hasValue, setFieldValues } from './schema';
+import { QualityFilter, assessQuality, matchesQualityFilter } from './quality';
+
+// Types
+// Typed-in values for a record's fields, by field key
+export type RecordChanges = Record<string, string>;
+
+// A record with its position in the job's dataset, which edits and deletes refer to
+export interface IndexedRecord {
+  index: number;
+  record: Charity;
+}
+
+// Whether a field must be filled in, left empty, or either
+export type PresenceFilter = 'any' | 'yes' | 'no';
+
+export interface RecordFilter {
+  search: string;
+  // Empty for every state
+  state: string;
+  hasEmail: PresenceFilter;
+  hasWebsite: PresenceFilter;
+  quality: QualityFilter;
+  // Field key to sort on; empty keeps the dataset order
+  sortBy: string;
+  descending: boolean;
+}
+
+// Constants
+export const defaultRecordFilter: RecordFilter = {
+  search: '',
+  state: '',
+  hasEmail: 'any',
+  hasWebsite: 'any',
+  quality: 'all',
+  sortBy: '',
+  descending: false
+};
+
+// Check a value against a presence filter
+function matchesPresence(value: string | null | undefined, filter: PresenceFilter): boolean {
+  if (filter === 'any') return true;
+  return Boolean(value?.trim()) === (filter === 'yes');
+}
+
+// Order two field values; numbers compare as numbers, everything else as text
+function compareValues(left: FieldValue, right: FieldValue): number {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return formatFieldValue(left).localeCompare(formatFieldValue(right), undefined, { sensitivity: 'base', numeric: true });
+}
+
+// Filter and sort records by the schema's fields, keeping each one's position in the dataset.
+// Positions already known to be in the filtered state, such as from an index lookup, spare
+// checking every record.
+export function filterRecords(
+  charities: Charity[],
+  filter: RecordFilter,
+  fields: SchemaField[],
+  statePositions?: number[]
+): IndexedRecord[] {
+  const search = filter.search.trim().toLowerCase();
+  const candidates = statePositions
+    ? statePositions.filter(index => index < charities.length).map(index => ({ index, record: charities[index] }))
+    : charities.map((record, index) => ({ index, record }));
+
+  const rows = candidates
+    .filter(({ record }) =>
+      (!filter.state || (record.state || 'Unknown') === filter.state)
+      && matchesPresence(record.email, filter.hasEmail)
+      && matchesPresence(record.website, filter.hasWebsite)
+      && (filter.quality === 'all' || matchesQualityFilter(assessQuality(record, fields), filter.quality))
+      && (!search || fields.some(field => formatFieldValue(getFieldValue(record, field.key)).toLowerCase().includes(search)))
+    );
+  if (!filter.sortBy) return rows;
+
+  const direction = filter.descending ? -1 : 1;
+  return rows.sort((a, b) => {
+    const left = getFieldValue(a.record, filter.sortBy);
+    const right = getFieldValue(b.record, filter.sortBy);
+    // Empty values go last whichever way the column is sorted
+    if (hasValue(left) !== hasValue(right)) return hasValue(left) ? -1 : 1;
+    return compareValues(left, right) * direction;
+  });
+}
+
+// Convert typed-in text to a field's value; list entries are separated by semicolons
+export function parseFieldInput(text: string, field: SchemaField): FieldValue {
+  if (field.kind === 'list') {
+    return text.split(';').map(entry => coerceValue(entry, field.type)).filter((value): value is string | number => value !== null);
+  }
+  return coerceValue(text, field.type);
+}
+
+// Apply edits to one record's schema fields. A changed address is parsed again, unless the state was set by hand too.
+export function editRecord(charities: Charity[], index: number, changes: RecordChanges, fields: SchemaField[]): Charity[] {
+  if (!Number.isInteger(index) || index < 0 || index >= charities.length) {
+    throw new RangeError(`No record at position ${index}`);
+  }
+  const values: Record<string, FieldValue> = {};
+  for (const field of fields) {
+    if (typeof changes[field.key] === 'string') values[field.key] = parseFieldInput(changes[field.key], field);
+  }
+
+  const updated = setFieldValues(charities[index], values);
+  return charities.map((charity, position) => (position === index ? updated : charity));
+}
+
+// Remove records by position
+export function deleteRecords(charities: Charity[], indexes: number[]): Charity[] {
+  const removed = new Set(indexes);
+  return charities.filter((_charity, position) => !removed.has(position));
+}
+
+// Group records by state, keeping their order within each state; records without one go under "Unknown"
+export function groupByState(charities: Charity[]): Map<string, Charity[]> {
+  const byState = new Map<string, Charity[]>();
+  for (const charity of charities) {
+    const state = charity.state || 'Unknown';
+    const group = byState.get(state);
+    if (group) {
+      group.push(charity);
+    } else {
+      byState.set(state, [charity]);
+    }
+  }
+  return byState;
+}
@@ -0,0 +1,161 @@
+import type { Browser } from 'puppeteer';
+import type { ScraperConfig } from './scraper';
+import { StatusError, getFetchSettings, requestPolitely } from './fetcher';
+import type { LogSink } from './log';
+
+// Types
+export type RenderMode = 'static' | 'browser';
+
+export interface RenderConfig {
+  mode: RenderMode;
+  // How long to wait for the items selector (or detail name selector) to appear
+  waitTimeoutMs?: number;
+  // Times to scroll to the bottom of a list page, for sites that load more on scroll
+  scrolls?: number;
+  // Button to click to load more results, and how many times to click it
+  loadMoreSelector?: string;
+  maxLoadMoreClicks?: number;
+  // Pause after each scroll or click for new results to arrive
+  stepDelayMs?: number;
+}
+
+export interface RenderOptions {
+  // Selector to wait for before reading the page
+  waitFor?: string;
+  // Scroll and click "load more" as configured (list pages only)
+  expand?: boolean;
+  // Checked while waiting to retry the page load
+  shouldStop?: () => boolean;
+  // Where an unreadable robots.txt is reported
+  log?: LogSink;
+}
+
+// Defaults applied to profiles saved before rendering was configurable
+const defaultRender: Required<Omit<RenderConfig, 'loadMoreSelector'>> = {
+  mode: 'static',
+  waitTimeoutMs: 20000,
+  scrolls: 0,
+  maxLoadMoreClicks: 0,
+  stepDelayMs: 1000
+};
+
+export const renderModes: Record<RenderMode, string> = {
+  static: 'Static HTML (fast, no JavaScript)',
+  browser: 'Headless browser (runs the page\'s JavaScript; Node only)'
+};
+
+// One browser shared by every page of a run
+let browserPromise: Promise<Browser> | null = null;
+
+// Get the render settings of a configuration with defaults filled in
+export function getRenderSettings(config: ScraperConfig): RenderConfig & typeof defaultRender {
+  return { ...defaultRender, ...config.render };
+}
+
+// Wait between scroll and click steps
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Start the shared headless browser, or reuse the one already running
+function getBrowser(): Promise<Browser> {
+  if (typeof window !== 'undefined') {
+    return Promise.reject(new Error('Headless browser rendering runs under Node only; use the command line or backend, or switch the profile to static HTML'));
+  }
+  if (!browserPromise) {
+    // Loaded at run time so the web bundle never includes Puppeteer
+    const moduleName = 'puppeteer';
+    browserPromise = import(/* @vite-ignore */ moduleName)
+      .then(({ default: puppeteer }) => puppeteer.launch({ headless: true }) as Promise<Browser>)
+      .catch(error => {
+        browserPromise = null;
+        throw error;
+      });
+  }
+  return browserPromise;
+}
+
+// Close the shared browser, if one was started
+export async function closeBrowser(): Promise<void> {
+  const pending = browserPromise;
+  browserPromise = null;
+  if (pending) await (await pending).close();
+}
+
+// Load a URL in the headless browser and return the HTML after its scripts have run. The page load
+// follows the same robots.txt, rate limit and retry rules as static requests.
+export async function renderPage(url: string, config: ScraperConfig, options: RenderOptions = {}): Promise<string> {
+  const render = getRenderSettings(config);
+  const fetchSettings = getFetchSettings(config);
+
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+
+  try {
+    await page.setUserAgent(fetchSettings.userAgent);
+    await requestPolitely(url, config, async () => {
+      const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: fetchSettings.timeoutMs });
+      if (response && response.status() >= 400) {
+        throw new StatusError(response.status(), url, response.headers()['retry-after']);
+      }
+    }, { shouldStop: options.shouldStop, log: options.log });
+
+    if (options.waitFor) {
+      try {
+        await page.waitForSelector(options.waitFor, { timeout: render.waitTimeoutMs });
+      } catch (error) {
+        // A list page without items, such as the page after the last, is returned as it is so the
+        // run's empty-page rule can end the job; there is nothing to scroll or click for
+        if (options.expand && error instanceof Error && error.name === 'TimeoutError') return await page.content();
+        throw error;
+      }
+    }
+
+    if (options.expand) {
+      for (let i = 0; i < render.scrolls; i++) {
+        await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        await delay(render.stepDelayMs);
+      }
+
+      if (render.loadMoreSelector) {
+        for (let i = 0; i < render.maxLoadMoreClicks; i++) {
+          const button = await page.$(render.loadMoreSelector);
+          if (!button) break;
+          try {
+            await button.click();
+          } catch {
+            // Hidden or disabled once everything has loaded
+            break;
+          }
+          await delay(render.stepDelayMs);
+        }
+      }
+    }
+
+    return await page.content();
+  } finally {
+    await page.close();
+  }
+}
+
+// Validate render settings, returning human-readable problems
+export function validateRenderSettings(config: ScraperConfig): string[] {
+  const render = getRenderSettings(config);
+  const errors: string[] = [];
+  if (render.mode !== 'browser') return errors;
+
+  if (!Number.isFinite(render.waitTimeoutMs) || render.waitTimeoutMs < 0) {
+    errors.push('Render wait timeout cannot be negative');
+  }
+  if (!Number.isInteger(render.scrolls) || render.scrolls < 0) {
+    errors.push('Scroll count must be a whole number of at least 0');
+  }
+  if (!Number.isInteger(render.maxLoadMoreClicks) || render.maxLoadMoreClicks < 0) {
+    errors.push('Load more clicks must be a whole number of at least 0');
+  }
+  if (render.maxLoadMoreClicks > 0 && !render.loadMoreSelector?.trim()) {
+    errors.push('Clicking "load more" requires a load more selector');
+  }
+
+  return errors;
+}
@@ -0,0 +1,101 @@
+import {
+  ScrapeJob,
+  appendJobLog,
+  isBatchFull,
+  recordPageFailure,
+  saveJob,
+  scrapeJobPage,
+  startNextBatch
+} from './jobs';
+import { PageStoppedError } from './scraper';
+import { LogEntry, LogEvent, errorDetails } from './log';
+import { waitUnlessStopped } from '../utils/concurrency';
+
+// Types
+export interface RunHooks {
+  // Each entry as it is added to the job's log
+  onLog?: (entry: LogEntry) => void;
+  // Each checkpoint of the job, after it was saved
+  onUpdate?: (job: ScrapeJob) => void;
+  // Checked between pages and within them; returning true stops the run, keeping what was done
+  // of an unfinished page in the job's cursor
+  shouldStop: () => boolean;
+}
+
+// Scrape pages until the job finishes, a batch fills up without untilExhausted, a page fails
+// or the run is stopped. The job is saved after every page; the returned job is paused,
+// completed or failed.
+export async function runJob(initial: ScrapeJob, hooks: RunHooks): Promise<ScrapeJob> {
+  let job = initial;
+
+  const note = (message: string, event: Partial<LogEvent> = {}) => {
+    job = appendJobLog(job, message, event);
+    hooks.onLog?.(job.log[job.log.length - 1]);
+  };
+  const checkpoint = (next: ScrapeJob) => {
+    job = saveJob(next);
+    hooks.onUpdate?.(job);
+  };
+
+  // Continuing after a full batch starts the next one
+  if (isBatchFull(job)) job = startNextBatch(job);
+  note(`Starting batch ${job.batchNumber} at page ${job.cursor.pageNumber}`);
+  checkpoint({ ...job, status: 'running', error: undefined });
+
+  while (job.hasMore && !hooks.shouldStop()) {
+    const { pageNumber } = job.cursor;
+    try {
+      const outcome = await scrapeJobPage(job, event => note(event.message, { pageNumber, ...event }), hooks.shouldStop);
+      // Keep the entries logged while the page was scraped
+      job = { ...outcome.job, log: job.log, logCounts: job.logCounts };
+      note(`Page ${pageNumber}: ${outcome.found} items, ${outcome.added} new, ${outcome.merged} merged (${job.charities.length} total)`, { pageNumber });
+      if (outcome.enrichment) {
+        const stats = outcome.enrichment;
+        note(`Found ${stats.found} emails (${stats.fromCache} cached, ${stats.hunterSearches} Hunter searches)`, { pageNumber });
+        if (stats.budgetExhausted) note('Hunter monthly budget reached; Hunter lookups were skipped', { level: 'warn', pageNumber });
+      }
+      if (outcome.validation.websitesChecked > 0) {
+        const stats = outcome.validation;
+        note(`Checked ${stats.websitesChecked} websites (${stats.websitesUnreachable} unreachable, ${stats.websitesRedirected} redirected)`, { pageNumber });
+      }
+      checkpoint(job);
+    } catch (error) {
+      if (error instanceof PageStoppedError) {
+        job = { ...job, cursor: { ...job.cursor, unfinished: error.unfinished } };
+        note(`${error.message}; the job continues from where the page got to`, { pageNumber });
+        break;
+      }
+      // A request cut short by the stop is not a failure of the page
+      if (hooks.shouldStop()) {
+        note(`Stopped during page ${pageNumber}; it will be scraped again when the job continues`, { pageNumber });
+        break;
+      }
+      job = recordPageFailure(job, error);
+      const { url } = job.failedPages[job.failedPages.length - 1];
+      note(`Error on page ${pageNumber}: ${job.error}`, { level: 'error', pageNumber, url, error: errorDetails(error) });
+      checkpoint(job);
+      return job;
+    }
+
+    if (job.hasMore && isBatchFull(job)) {
+      if (!job.settings.untilExhausted) break;
+      note(`Batch ${job.batchNumber} complete; starting batch ${job.batchNumber + 1} in ${job.settings.batchDelayMs / 1000}s`);
+      checkpoint(startNextBatch(job));
+      await waitUnlessStopped(job.settings.batchDelayMs, hooks.shouldStop);
+    }
+  }
+
+  if (job.hasMore) {
+    note(hooks.shouldStop()
+      ? `Stopped at page ${job.cursor.pageNumber}.`
+      : `Batch ${job.batchNumber} of ${job.settings.batchSize} items complete.`);
+    checkpoint({ ...job, status: 'paused' });
+  } else {
+    const { maxItems } = job.settings;
+    note(maxItems !== undefined && job.processedCount >= maxItems
+      ? `Item cap of ${maxItems} reached. Job complete: ${job.charities.length} records.`
+      : `Job complete: ${job.charities.length} records.`);
+    checkpoint(job);
+  }
+  return job;
+}
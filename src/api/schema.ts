@@ -0,0 +1,277 @@
+import type { Charity, ScraperConfig } from './scraper';
+import { parseAddress } from './address';
+import { FieldTransform, applyTransforms, validateTransforms } from './transforms';
+import { absoluteUrl } from '../utils/url';
+
+// Types
+// How a field's value is read from the elements its selector matches
+export type ExtractionKind = 'text' | 'attribute' | 'html' | 'list';
+
+export type FieldType = 'string' | 'number' | 'url' | 'email' | 'date';
+
+// A value as stored on a record; list fields hold one entry per matched element
+export type FieldValue = string | number | boolean | (string | number)[] | null;
+
+// One field of the records a profile scrapes
+export interface SchemaField {
+  // Property name in exports and the API; built-in record properties such as name or website keep their meaning
+  key: string;
+  label: string;
+  // Matched within each item on list pages; fields without any selector are filled in by the app
+  selector?: string;
+  // Matched on the item's detail page, replacing the list page value when found
+  detailSelector?: string;
+  kind: ExtractionKind;
+  // Attribute read by the 'attribute' kind, e.g. href
+  attribute?: string;
+  // Steps applied in order to the text read on list and detail pages, before it is converted to the type
+  transforms?: FieldTransform[];
+  type: FieldType;
+  // Items missing a required field are dropped
+  required: boolean;
+}
+
+// Record properties the app itself understands: dedupe, enrichment, the state summary and address parsing
+export type RecordProperty =
+  | 'name'
+  | 'address'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'zip'
+  | 'country'
+  | 'website'
+  | 'email'
+  | 'emailSource'
+  | 'emailConfidence'
+  | 'ein'
+  | 'detailUrl'
+  | 'stateInferred'
+  | 'websiteStatus'
+  | 'websiteFinalUrl'
+  | 'qualityFlags';
+
+// Constants
+export const recordProperties: Record<RecordProperty, string> = {
+  name: 'Name',
+  address: 'Address',
+  street: 'Street',
+  city: 'City',
+  state: 'State',
+  zip: 'ZIP',
+  country: 'Country',
+  website: 'Website',
+  email: 'Email',
+  emailSource: 'Email Source',
+  emailConfidence: 'Email Confidence',
+  ein: 'EIN',
+  detailUrl: 'Detail URL',
+  stateInferred: 'State Inferred',
+  websiteStatus: 'Website Status',
+  websiteFinalUrl: 'Website Redirects To',
+  qualityFlags: 'Quality Flags'
+};
+
+// The type a schema field must have when it fills a record property; the rest are set by the app only
+const propertyTypes: Partial<Record<RecordProperty, FieldType>> = {
+  name: 'string',
+  address: 'string',
+  street: 'string',
+  city: 'string',
+  state: 'string',
+  zip: 'string',
+  country: 'string',
+  website: 'url',
+  email: 'email',
+  ein: 'string'
+};
+
+export const extractionKinds: Record<ExtractionKind, string> = {
+  text: 'Text',
+  attribute: 'Attribute',
+  html: 'HTML',
+  list: 'List (every match)'
+};
+
+export const fieldTypes: Record<FieldType, string> = {
+  string: 'Text',
+  number: 'Number',
+  url: 'URL',
+  email: 'Email',
+  date: 'Date'
+};
+
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// A date written the ISO way, possibly followed by a time
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ]|$)/;
+
+// Check whether a key names a record property rather than a profile-specific field
+export function isRecordProperty(key: string): key is RecordProperty {
+  return key in recordProperties;
+}
+
+// The charity fields, built from a profile's fixed selectors; used when the profile declares no fields
+export function fieldsFromSelectors(config: ScraperConfig): SchemaField[] {
+  const { selectors, detailSelectors = {} } = config;
+  const fields: SchemaField[] = [
+    { key: 'name', label: 'Name', selector: selectors.name, detailSelector: detailSelectors.name, kind: 'text', type: 'string', required: true },
+    { key: 'address', label: 'Address', selector: selectors.address, detailSelector: detailSelectors.address, kind: 'text', type: 'string', required: false },
+    { key: 'website', label: 'Website', selector: selectors.website, detailSelector: detailSelectors.website, kind: 'attribute', attribute: 'href', type: 'url', required: false },
+    // Found by enrichment and parsed from the address
+    { key: 'email', label: 'Email', kind: 'text', type: 'email', required: false },
+    { key: 'state', label: 'State', kind: 'text', type: 'string', required: false }
+  ];
+  if (selectors.ein || detailSelectors.ein) {
+    fields.push({ key: 'ein', label: 'EIN', selector: selectors.ein, detailSelector: detailSelectors.ein, kind: 'text', type: 'string', required: false });
+  }
+  return fields;
+}
+
+// The fields a profile scrapes: its own when declared, else the charity fields
+export function getSchema(config: ScraperConfig): SchemaField[] {
+  return config.fields && config.fields.length > 0 ? config.fields : fieldsFromSelectors(config);
+}
+
+// Validate declared fields, returning human-readable problems
+export function validateSchema(fields: SchemaField[], isValidSelector: (selector: string) => boolean): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  if (!fields.some(field => field.selector?.trim() || field.detailSelector?.trim())) {
+    errors.push('At least one field needs a selector');
+  }
+
+  fields.forEach((field, index) => {
+    const name = field.label.trim() || field.key || `Field ${index + 1}`;
+    if (!KEY_PATTERN.test(field.key)) {
+      errors.push(`${name}: the key must start with a letter and use only letters, digits and underscores`);
+    } else if (seen.has(field.key)) {
+      errors.push(`${name}: the key "${field.key}" is used more than once`);
+    }
+    seen.add(field.key);
+
+    if (!field.label.trim()) errors.push(`Field "${field.key}" needs a label`);
+    if (isRecordProperty(field.key)) {
+      const expected = propertyTypes[field.key];
+      if (!expected) {
+        errors.push(`${name}: "${field.key}" is filled in by the app and cannot be scraped`);
+      } else if (field.type !== expected || field.kind === 'list') {
+        errors.push(`${name}: "${field.key}" must be a single ${fieldTypes[expected].toLowerCase()} value`);
+      }
+    }
+    if (field.kind === 'attribute' && !field.attribute?.trim()) errors.push(`${name}: choose the attribute to read`);
+    if (field.required && !field.selector?.trim() && !field.detailSelector?.trim()) {
+      errors.push(`${name}: a required field needs a selector`);
+    }
+    validateTransforms(field.transforms ?? []).forEach(error => errors.push(`${name}: ${error}`));
+    for (const selector of [field.selector, field.detailSelector]) {
+      if (selector?.trim() && !isValidSelector(selector)) errors.push(`${name}: invalid selector ${selector}`);
+    }
+  });
+
+  return errors;
+}
+
+// Format a calendar date as YYYY-MM-DD, or null when the day does not exist, such as February 30
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Read a date as the day written, whatever the time zone: ISO dates are taken as they are, since
+// Date.parse reads them as UTC, and other forms, which it reads as local time, by their local day
+function parseDate(value: string): string | null {
+  const iso = value.match(ISO_DATE_PATTERN);
+  if (iso) return formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  const date = new Date(time);
+  return formatDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+// Convert extracted or typed-in text to a field's type; text that does not fit becomes null
+export function coerceValue(text: string, type: FieldType, pageUrl?: string): string | number | null {
+  // Text keeps its line breaks, which the address parser reads as separators
+  const value = type === 'string' ? text.trim() : text.replace(/\s+/g, ' ').trim();
+  if (!value) return null;
+
+  switch (type) {
+    case 'number': {
+      // The first number in the text, ignoring currency signs and thousands separators
+      const match = value.match(/-?\d[\d,]*(\.\d+)?/);
+      return match ? Number(match[0].replace(/,/g, '')) : null;
+    }
+    case 'url':
+      return pageUrl ? absoluteUrl(value, pageUrl) : value;
+    case 'email': {
+      const email = value.replace(/^mailto:/i, '').split('?')[0].toLowerCase();
+      return EMAIL_PATTERN.test(email) ? email : null;
+    }
+    case 'date':
+      return parseDate(value);
+    default:
+      return value;
+  }
+}
+
+// Turn the text read from one matched element into a field value: the transform chain runs first,
+// then the text is converted to the field's type (HTML is kept as it is)
+export function textToFieldValue(text: string, field: SchemaField, pageUrl?: string): string | number | null {
+  const transformed = applyTransforms(text, field.transforms, pageUrl);
+  if (transformed === null) return null;
+  return field.kind === 'html' ? transformed.trim() || null : coerceValue(transformed, field.type, pageUrl);
+}
+
+// Read a field's value from a record
+export function getFieldValue(record: Charity, key: string): FieldValue {
+  const value = isRecordProperty(key) ? record[key] : record.extra?.[key];
+  return value ?? null;
+}
+
+// Check whether a value counts as filled in
+export function hasValue(value: FieldValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== '';
+}
+
+// Show a value as text; list entries are separated by semicolons
+export function formatFieldValue(value: FieldValue): string {
+  if (value === null) return '';
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+// Set field values on a record. A new address is parsed into its parts and state,
+// unless the state is among the values too.
+export function setFieldValues(record: Charity, values: Record<string, FieldValue>): Charity {
+  let updated: Charity = { ...record };
+  const extra = { ...record.extra };
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!isRecordProperty(key)) {
+      extra[key] = value;
+    } else if (key === 'email') {
+      updated.email = value === null || value === '' ? null : String(value);
+    } else {
+      updated = { ...updated, [key]: value === null ? (key === 'name' || key === 'address' || key === 'website' ? '' : undefined) : value };
+    }
+  }
+
+  if ('address' in values && values.address !== record.address) {
+    updated = { ...updated, ...parseAddress(updated.address) };
+  }
+  // A website check says nothing about a different address
+  if ('website' in values && values.website !== record.website) {
+    updated = { ...updated, websiteStatus: undefined, websiteFinalUrl: undefined };
+  }
+  if ('state' in values) {
+    updated = { ...updated, state: formatFieldValue(values.state) || 'Unknown', stateInferred: false };
+  }
+  return Object.keys(extra).length > 0 ? { ...updated, extra } : updated;
+}
+
+// Labels of required fields a record is missing
+export function missingRequired(record: Charity, fields: SchemaField[]): string[] {
+  return fields.filter(field => field.required && !hasValue(getFieldValue(record, field.key))).map(field => field.label);
+}
@@ -1,8 +1,16 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
-
-// Constants
-const HUNTER_API_KEY = import.meta.env.VITE_HUNTER_API_KEY;
+import { parseAddress } from './address';
+import { demoSource } from './demoSource';
+import { FetchConfig, politeGet } from './fetcher';
+import { RenderConfig, RenderOptions, getRenderSettings, renderPage } from './renderer';
+import { getActiveProfile, saveProfile } from './profiles';
+import { PaginationConfig, advanceCursor, buildPageUrl } from './pagination';
+import type { EmailProviderId } from './enrichment';
+import type { QualityFlag, ValidationConfig, WebsiteStatus } from './quality';
+import { FieldValue, SchemaField, getSchema, hasValue, missingRequired, setFieldValues, textToFieldValue } from './schema';
+import { LogSink, consoleSink, errorDetails } from './log';
+import { mapUntilStopped } from '../utils/concurrency';
+import { absoluteUrl } from '../utils/url';
 
 // Types
 export interface Charity {
@@ -11,299 +19,441 @@ export interface Charity {
   website: string;
   email: string | null;
   state: string;
+  // Address parts split out by the parser; state is inferred when it came from the ZIP or a loose match
+  street?: string;
+  city?: string;
+  zip?: string;
+  country?: string;
+  stateInferred?: boolean;
+  detailUrl?: string;
+  // US tax id, when the site shows one
+  ein?: string;
+  // Which enrichment provider found the email, and how sure it is (0-100)
+  emailSource?: EmailProviderId;
+  emailConfidence?: number;
+  // What loading the website showed, when websites are checked, and where it redirected to
+  websiteStatus?: WebsiteStatus;
+  websiteFinalUrl?: string;
+  // Set by the validation stage; worked out again from the current values wherever records are shown or exported
+  qualityFlags?: QualityFlag[];
+  // The job revision the record last changed in, so clients can fetch only what changed
+  revision?: number;
+  // Values of profile fields that are not one of the properties above, by field key
+  extra?: Record<string, FieldValue>;
+}
+
+export type PageSourceId = 'live' | 'demo';
+
+export interface FieldSelectors {
+  name?: string;
+  address?: string;
+  website?: string;
+  ein?: string;
 }
 
 export interface ScraperConfig {
+  source: PageSourceId;
   sourceUrl: string;
+  // Fields the profile scrapes; when left out, the name, address, website and EIN selectors below are used
+  fields?: SchemaField[];
   selectors: {
     items: string;
     name: string;
     address?: string;
     website?: string;
+    ein?: string;
+    nextPage?: string;
+    detailLink?: string;
   };
+  // Selectors applied to each item's detail page when selectors.detailLink is set
+  detailSelectors?: FieldSelectors;
+  // Maximum number of detail pages fetched at once
+  detailConcurrency?: number;
+  pagination?: PaginationConfig;
+  // Rate limits, retries, timeouts, User-Agent and robots.txt handling for every request
+  fetch?: FetchConfig;
+  // Static HTML or a headless browser for sites that render their results with JavaScript
+  render?: RenderConfig;
+  // Extra checks run on scraped records before they are saved
+  validation?: ValidationConfig;
 }
 
-// Default scraper configuration
-let scraperConfig: ScraperConfig = {
-  sourceUrl: 'https://www.charitynavigator.org/search?page=',
-  selectors: {
-    items: '.search-result',
-    name: 'a.link-primary',
-    address: '.cn-address',
-    website: 'a[href^="http"]:not([href*="charitynavigator.org"])'
+// Position in a paginated listing
+export interface PageCursor {
+  pageNumber: number;
+  // URL to fetch instead of building one, when the previous page linked to it
+  url?: string;
+  // Summary of the previous page's items, used to detect repeated content
+  previousFingerprint?: string;
+  // Work done on this page before a run was stopped part way through it
+  unfinished?: UnfinishedPage;
+}
+
+export interface PageResult {
+  charities: Charity[];
+  hasMore: boolean;
+  nextCursor: PageCursor;
+}
+
+// A loaded list page's items, of which the first `detailed` have been through their detail pages
+export interface ListedPage {
+  charities: Charity[];
+  nextLink: { found: boolean; url?: string };
+  detailed: number;
+}
+
+// Where a stopped page got to, so continuing the job picks up there instead of loading it again:
+// part way through the detail pages, or through enrichment with the first items enriched
+export type UnfinishedPage =
+  | ({ stage: 'details' } & ListedPage)
+  | { stage: 'enrichment'; page: PageResult; enriched: Charity[] };
+
+// What one field's selector found within an item or on a detail page
+export interface FieldCheck {
+  key: string;
+  label: string;
+  selector: string;
+  // Elements the selector matched: 0 is a miss, more than 1 means only the first is used (except for lists)
+  matches: number;
+  value: FieldValue;
+}
+
+export interface ItemCheck {
+  fields: FieldCheck[];
+  detailUrl?: string;
+}
+
+// Result of trying a profile's selectors on one list page
+export interface SelectorTestResult {
+  pageUrl: string;
+  itemCount: number;
+  // The first items, each with every field that has a list page selector
+  items: ItemCheck[];
+  // The first item's detail page, when the profile has detail selectors and the page was loaded
+  detail?: { url: string; fields: FieldCheck[] };
+  nextPageUrl?: string;
+  warnings: string[];
+}
+
+// A place pages of charities come from
+export interface PageSource {
+  id: PageSourceId;
+  label: string;
+  // Problems that do not fail the page are reported to the log sink. Once shouldStop says so, a
+  // source may end the page early with a PageStoppedError carrying the work done so far.
+  fetchPage(cursor: PageCursor, config: ScraperConfig, log: LogSink, shouldStop?: () => boolean): Promise<PageResult>;
+}
+
+// Thrown when a run is stopped part way through a page. The cursor stays on the page and keeps
+// what was done of it, so the job continues from there.
+export class PageStoppedError extends Error {
+  constructor(public pageNumber: number, public unfinished?: UnfinishedPage) {
+    super(`Stopped during page ${pageNumber}`);
   }
-};
+}
 
-// Update scraper configuration
+// Update the active profile's scraper configuration
 export function updateScraperConfig(config: Partial<ScraperConfig>): void {
-  scraperConfig = { ...scraperConfig, ...config };
+  const profile = getActiveProfile();
+  saveProfile({ ...profile, config: { ...profile.config, ...config } });
 }
 
-// Get current scraper configuration
+// Get the active profile's scraper configuration
 export function getScraperConfig(): ScraperConfig {
-  return scraperConfig;
+  return getActiveProfile().config;
 }
 
-// Extract state from address
-function extractState(address: string): string {
-  if (!address) return 'Unknown';
-  
-  // Look for a 2-letter state code followed by a space and 5 digits (ZIP code)
-  const stateZipMatch = address.match(/([A-Z]{2})\s+\d{5}(-\d{4})?/);
-  if (stateZipMatch) {
-    return stateZipMatch[1];
-  }
-  
-  // Common state names and abbreviations
-  const states: Record<string, string> = {
-    'Alabama': 'AL', 'Alaska': 'AK', 'Arizona': 'AZ', 'Arkansas': 'AR',
-    'California': 'CA', 'Colorado': 'CO', 'Connecticut': 'CT', 'Delaware': 'DE',
-    'Florida': 'FL', 'Georgia': 'GA', 'Hawaii': 'HI', 'Idaho': 'ID',
-    'Illinois': 'IL', 'Indiana': 'IN', 'Iowa': 'IA', 'Kansas': 'KS',
-    'Kentucky': 'KY', 'Louisiana': 'LA', 'Maine': 'ME', 'Maryland': 'MD',
-    'Massachusetts': 'MA', 'Michigan': 'MI', 'Minnesota': 'MN', 'Mississippi': 'MS',
-    'Missouri': 'MO', 'Montana': 'MT', 'Nebraska': 'NE', 'Nevada': 'NV',
-    'New Hampshire': 'NH', 'New Jersey': 'NJ', 'New Mexico': 'NM', 'New York': 'NY',
-    'North Carolina': 'NC', 'North Dakota': 'ND', 'Ohio': 'OH', 'Oklahoma': 'OK',
-    'Oregon': 'OR', 'Pennsylvania': 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC',
-    'South Dakota': 'SD', 'Tennessee': 'TN', 'Texas': 'TX', 'Utah': 'UT',
-    'Vermont': 'VT', 'Virginia': 'VA', 'Washington': 'WA', 'West Virginia': 'WV',
-    'Wisconsin': 'WI', 'Wyoming': 'WY', 'District of Columbia': 'DC'
-  };
-  
-  for (const [stateName, stateCode] of Object.entries(states)) {
-    if (address.includes(stateName)) {
-      return stateCode;
+// Constants
+const DEFAULT_DETAIL_CONCURRENCY = 3;
+// Items listed in a selector test; the count and warnings still cover every item
+const TESTED_ITEMS = 50;
+
+// Element (or whole document when omitted) that selectors are matched within
+type SelectorScope = Parameters<cheerio.CheerioAPI>[1];
+
+// Which selector of a field applies on list pages and which on detail pages
+type SelectorOf = (field: SchemaField) => string | undefined;
+
+const listSelector: SelectorOf = field => field.selector?.trim();
+const detailSelector: SelectorOf = field => field.detailSelector?.trim();
+
+// Read one field within a scope, through its transforms and converted to its type
+function extractField($: cheerio.CheerioAPI, scope: SelectorScope, field: SchemaField, selector: string, pageUrl: string): FieldValue {
+  const matches = $(selector, scope);
+  const read = (element: Parameters<typeof $>[0]): string => {
+    switch (field.kind) {
+      case 'attribute':
+        return $(element).attr(field.attribute ?? '') ?? '';
+      case 'html':
+        return $(element).html() ?? '';
+      default:
+        return $(element).text();
     }
+  };
+
+  if (field.kind === 'list') {
+    return matches.toArray()
+      .map(element => textToFieldValue(read(element), field, pageUrl))
+      .filter((value): value is string | number => value !== null);
   }
-  
-  return 'Unknown';
+  if (matches.length === 0) return null;
+  return textToFieldValue(read(matches.first()), field, pageUrl);
 }
 
-// Extract domain from URL
-function extractDomain(url: string): string | null {
-  if (!url) return null;
-  
+// Read every field that has a selector for this kind of page, leaving out those with nothing found
+function extractFields($: cheerio.CheerioAPI, scope: SelectorScope, fields: SchemaField[], selectorOf: SelectorOf, pageUrl: string) {
+  const values: Record<string, FieldValue> = {};
+  for (const field of fields) {
+    const selector = selectorOf(field);
+    if (!selector) continue;
+    const value = extractField($, scope, field, selector, pageUrl);
+    if (hasValue(value)) values[field.key] = value;
+  }
+  return values;
+}
+
+// Get a page's HTML, through the headless browser when the profile renders pages
+async function loadHtml(url: string, config: ScraperConfig, options: RenderOptions): Promise<string> {
+  if (getRenderSettings(config).mode === 'browser') {
+    return renderPage(url, config, options);
+  }
+  return (await politeGet(url, config, { shouldStop: options.shouldStop, log: options.log })).data;
+}
+
+// Follow a charity's detail link and merge any non-empty fields found there
+async function scrapeDetailPage(
+  charity: Charity,
+  config: ScraperConfig,
+  fields: SchemaField[],
+  log: LogSink,
+  shouldStop: () => boolean
+): Promise<Charity> {
+  if (!charity.detailUrl) return charity;
+
   try {
-    const domain = new URL(url).hostname;
-    return domain.startsWith('www.') ? domain.substring(4) : domain;
+    const waitFor = (fields.find(field => field.required && detailSelector(field)) ?? fields.find(detailSelector))?.detailSelector;
+    const html = await loadHtml(charity.detailUrl, config, { waitFor, shouldStop, log });
+    const $ = cheerio.load(html);
+    return setFieldValues(charity, extractFields($, undefined, fields, detailSelector, charity.detailUrl));
   } catch (error) {
-    console.error(`Error extracting domain from ${url}:`, error);
-    return null;
+    // A load cut short by a stop is tried again when the job continues
+    if (shouldStop()) throw error;
+    // Keep what the list page gave us rather than losing the item
+    log({ level: 'warn', message: 'Could not scrape a detail page; the list page values were kept', url: charity.detailUrl, error: errorDetails(error) });
+    return charity;
   }
 }
 
-// Get email from domain using Hunter.io API
-async function getEmailFromDomain(domain: string): Promise<string | null> {
-  if (!domain) return null;
+// Scrape a list page's items and next link using cheerio; failed requests throw rather than looking
+// like an empty last page
+async function scrapeListPage(url: string, scraperConfig: ScraperConfig, log: LogSink, shouldStop: () => boolean): Promise<ListedPage> {
+  const { selectors } = scraperConfig;
+  const fields = getSchema(scraperConfig);
   
-  try {
-    console.log(`Fetching email for domain: ${domain}`);
-    const response = await axios.get('https://api.hunter.io/v2/domain-search', {
-      params: {
-        domain,
-        api_key: HUNTER_API_KEY,
-        limit: 1,
-      },
-    });
+  const html = await loadHtml(url, scraperConfig, { waitFor: selectors.items, expand: true, shouldStop, log });
+  const $ = cheerio.load(html);
+  const results: Charity[] = [];
+  const items = $(selectors.items);
+  // A site redesign usually shows up as a page where the items selector finds nothing
+  if (items.length === 0) {
+    log({ level: 'warn', message: `The items selector "${selectors.items}" matched nothing`, url });
+  }
+  
+  items.each((_, element) => {
+    const values = extractFields($, element, fields, listSelector, url);
+    const detailHref = selectors.detailLink ? $(selectors.detailLink, element).first().attr('href') : undefined;
+    const detailUrl = detailHref ? absoluteUrl(detailHref, url) : undefined;
     
-    if (response.data.data.emails && response.data.data.emails.length > 0) {
-      const email = response.data.data.emails[0].value;
-      console.log(`Found email for domain ${domain}: ${email}`);
-      return email;
+    // Items with nothing on the card can still get their fields from their detail page
+    if (Object.keys(values).length > 0 || detailUrl) {
+      const empty: Charity = { name: '', address: '', website: '', email: null, ...parseAddress(''), detailUrl };
+      results.push(setFieldValues(empty, values));
     }
-    
-    console.log(`No emails found for domain ${domain}`);
-    return null;
-  } catch (error) {
-    console.error(`Error fetching email for domain ${domain}:`, error);
-    return null;
+  });
+  
+  const nextElement = selectors.nextPage ? $(selectors.nextPage).first() : undefined;
+  const nextHref = nextElement?.attr('href');
+  const nextLink = {
+    found: !!nextElement?.length,
+    url: nextHref ? absoluteUrl(nextHref, url) : undefined
+  };
+  return { charities: results, nextLink, detailed: 0 };
+}
+
+// Visit the detail pages of a list page's items that have not been visited yet, until shouldStop says so
+async function scrapeDetailPages(
+  page: ListedPage,
+  config: ScraperConfig,
+  fields: SchemaField[],
+  log: LogSink,
+  shouldStop: () => boolean
+): Promise<ListedPage> {
+  if (!config.selectors.detailLink || !fields.some(detailSelector)) {
+    return { ...page, detailed: page.charities.length };
   }
+
+  const remaining = page.charities.slice(page.detailed);
+  const visited = await mapUntilStopped(
+    remaining,
+    config.detailConcurrency || DEFAULT_DETAIL_CONCURRENCY,
+    charity => scrapeDetailPage(charity, config, fields, log, shouldStop),
+    shouldStop
+  );
+  return {
+    ...page,
+    charities: [...page.charities.slice(0, page.detailed), ...visited, ...remaining.slice(visited.length)],
+    detailed: page.detailed + visited.length
+  };
 }
 
-// Scrape a webpage using cheerio
-async function scrapeWebpage(url: string): Promise<Charity[]> {
-  try {
-    const response = await axios.get(url);
-    const $ = cheerio.load(response.data);
-    const results: Charity[] = [];
-    
-    $(scraperConfig.selectors.items).each((_, element) => {
-      const name = $(element).find(scraperConfig.selectors.name).text().trim();
-      let address = '';
-      let website = '';
-      
-      if (scraperConfig.selectors.address) {
-        address = $(element).find(scraperConfig.selectors.address).text().trim();
-      }
-      
-      if (scraperConfig.selectors.website) {
-        website = $(element).find(scraperConfig.selectors.website).attr('href') || '';
-      }
-      
-      if (name) {
-        const state = extractState(address);
-        const domain = extractDomain(website);
-        
-        results.push({
-          name,
-          address,
-          website,
-          email: null, // Will be populated later
-          state
-        });
-      }
-    });
-    
-    return results;
-  } catch (error) {
-    console.error(`Error scraping webpage ${url}:`, error);
-    return [];
+// Drop items still missing a required field once their detail pages were read
+function keepComplete(charities: Charity[], fields: SchemaField[], url: string, log: LogSink): Charity[] {
+  const complete = charities.filter(charity => missingRequired(charity, fields).length === 0);
+  if (complete.length < charities.length) {
+    const missing = [...new Set(charities.flatMap(charity => missingRequired(charity, fields)))];
+    log({ level: 'warn', message: `Dropped ${charities.length - complete.length} of ${charities.length} items missing ${missing.join(', ')}`, url });
   }
+  return complete;
+}
+
+// Run every field that has a selector for this kind of page, keeping misses and match counts
+function checkFields($: cheerio.CheerioAPI, scope: SelectorScope, fields: SchemaField[], selectorOf: SelectorOf, pageUrl: string): FieldCheck[] {
+  return fields.flatMap(field => {
+    const selector = selectorOf(field);
+    if (!selector) return [];
+    const matches = $(selector, scope).length;
+    const value = matches > 0 ? extractField($, scope, field, selector, pageUrl) : null;
+    return [{ key: field.key, label: field.label, selector, matches, value }];
+  });
 }
 
-// Real charity data for demonstration
-const realCharityData: Charity[] = [
-  {
-    name: "American Red Cross",
-    address: "431 18th Street NW, Washington, DC 20006",
-    website: "https://www.redcross.org",
-    email: "info@redcross.org",
-    state: "DC"
-  },
-  {
-    name: "Feeding America",
-    address: "161 North Clark Street, Chicago, IL 60601",
-    website: "https://www.feedingamerica.org",
-    email: "info@feedingamerica.org",
-    state: "IL"
-  },
-  {
-    name: "Habitat for Humanity",
-    address: "285 Peachtree Center Ave NE, Atlanta, GA 30303",
-    website: "https://www.habitat.org",
-    email: "info@habitat.org",
-    state: "GA"
-  },
-  {
-    name: "St. Jude Children's Research Hospital",
-    address: "262 Danny Thomas Place, Memphis, TN 38105",
-    website: "https://www.stjude.org",
-    email: "donors@stjude.org",
-    state: "TN"
-  },
-  {
-    name: "United Way Worldwide",
-    address: "701 N Fairfax St, Alexandria, VA 22314",
-    website: "https://www.unitedway.org",
-    email: "info@unitedway.org",
-    state: "VA"
-  },
-  {
-    name: "Doctors Without Borders",
-    address: "40 Rector St, New York, NY 10006",
-    website: "https://www.doctorswithoutborders.org",
-    email: "donations@doctorswithoutborders.org",
-    state: "NY"
-  },
-  {
-    name: "World Wildlife Fund",
-    address: "1250 24th Street, N.W., Washington, DC 20037",
-    website: "https://www.worldwildlife.org",
-    email: "info@wwfus.org",
-    state: "DC"
-  },
-  {
-    name: "The Salvation Army",
-    address: "615 Slaters Lane, Alexandria, VA 22313",
-    website: "https://www.salvationarmyusa.org",
-    email: "info@salvationarmy.org",
-    state: "VA"
-  },
-  {
-    name: "Boys & Girls Clubs of America",
-    address: "1275 Peachtree St NE, Atlanta, GA 30309",
-    website: "https://www.bgca.org",
-    email: "info@bgca.org",
-    state: "GA"
-  },
-  {
-    name: "Make-A-Wish Foundation",
-    address: "1702 E Highland Ave, Phoenix, AZ 85016",
-    website: "https://www.wish.org",
-    email: "info@wish.org",
-    state: "AZ"
+// Describe fields that came back empty or ambiguous across the checked items
+function fieldWarnings(checks: FieldCheck[][], fields: SchemaField[], place: string): string[] {
+  const warnings: string[] = [];
+  for (const field of fields) {
+    const found = checks.map(item => item.find(check => check.key === field.key)).filter((check): check is FieldCheck => !!check);
+    if (found.length === 0) continue;
+
+    const selector = found[0].selector;
+    const missing = found.filter(check => check.matches === 0).length;
+    const empty = found.filter(check => check.matches > 0 && !hasValue(check.value)).length;
+    const multiple = field.kind === 'list' ? 0 : found.filter(check => check.matches > 1).length;
+    if (missing === found.length) {
+      warnings.push(`${field.label}: "${selector}" matches nothing ${place}`);
+    } else if (missing > 0) {
+      warnings.push(`${field.label}: "${selector}" matches nothing in ${missing} of ${found.length} items`);
+    }
+    if (empty > 0) warnings.push(`${field.label}: ${empty} matched element(s) gave no value after transforms and type conversion`);
+    if (multiple > 0) warnings.push(`${field.label}: "${selector}" matches several elements in ${multiple} item(s); only the first is used`);
   }
-];
+  return warnings;
+}
 
-// Generate more charities based on the real ones
-function generateMoreCharities(page: number, count: number): Charity[] {
-  const statesList = ['CA', 'NY', 'TX', 'FL', 'IL', 'PA', 'OH', 'GA', 'NC', 'MI', 'VA', 'WA', 'AZ', 'MA', 'TN', 'IN', 'MO', 'MD', 'WI', 'CO'];
-  const baseIndex = (page - 1) * count;
-  
-  return Array.from({ length: count }, (_, i) => {
-    const index = baseIndex + i;
-    const randomState = statesList[index % statesList.length];
-    const randomBase = realCharityData[index % realCharityData.length];
-    
+// Try a profile's list page selectors on a page's HTML, reporting what every field finds in each item
+export function testSelectors(html: string, config: ScraperConfig, pageUrl: string): SelectorTestResult {
+  const { selectors } = config;
+  const fields = getSchema(config);
+  const $ = cheerio.load(html);
+  const items = $(selectors.items).toArray();
+  const warnings: string[] = [];
+
+  const checked: ItemCheck[] = items.map(element => {
+    const detailHref = selectors.detailLink ? $(selectors.detailLink, element).first().attr('href') : undefined;
     return {
-      name: `${randomBase.name} ${index + 1}`,
-      address: `${123 + index} Main St, City, ${randomState} ${10000 + index}`,
-      website: `https://${randomBase.website.split('//')[1].split('.')[0]}${index}.org`,
-      email: `info@${randomBase.website.split('//')[1].split('.')[0]}${index}.org`,
-      state: randomState
+      fields: checkFields($, element, fields, listSelector, pageUrl),
+      detailUrl: detailHref ? absoluteUrl(detailHref, pageUrl) : undefined
     };
   });
+
+  if (items.length === 0) {
+    warnings.push(`Items selector "${selectors.items}" matches nothing on this page`);
+  } else {
+    warnings.push(...fieldWarnings(checked.map(item => item.fields), fields, 'in any item'));
+    const noLink = checked.filter(item => !item.detailUrl).length;
+    if (selectors.detailLink && noLink > 0) {
+      warnings.push(`Detail link selector "${selectors.detailLink}" finds no link in ${noLink} of ${items.length} items`);
+    }
+    // Required fields a detail page could still fill are left to the detail page check
+    const dropped = checked.filter(item => fields.some(field =>
+      field.required && !detailSelector(field) && !item.fields.some(check => check.key === field.key && hasValue(check.value))
+    )).length;
+    if (dropped > 0) warnings.push(`${dropped} of ${items.length} items would be dropped for missing a required field`);
+  }
+
+  const nextElement = selectors.nextPage ? $(selectors.nextPage).first() : undefined;
+  const nextHref = nextElement?.attr('href');
+  if (selectors.nextPage && !nextHref) {
+    warnings.push(`Next page selector "${selectors.nextPage}" finds no link on this page`);
+  }
+
+  return {
+    pageUrl,
+    itemCount: items.length,
+    items: checked.slice(0, TESTED_ITEMS),
+    nextPageUrl: nextHref ? absoluteUrl(nextHref, pageUrl) : undefined,
+    warnings
+  };
 }
 
-// Fetch charity data from a specific page
-export async function fetchCharityPage(pageNumber: number): Promise<{
-  charities: Charity[];
-  hasMore: boolean;
-}> {
+// Load a list page the way a run would and test the profile's selectors on it, including the
+// first item's detail page when the profile has detail selectors
+export async function testSelectorsOnPage(url: string, config: ScraperConfig): Promise<SelectorTestResult> {
+  const fields = getSchema(config);
+  const html = await loadHtml(url, config, { waitFor: config.selectors.items, expand: true });
+  const result = testSelectors(html, config, url);
+
+  const detailUrl = result.items.find(item => item.detailUrl)?.detailUrl;
+  if (!detailUrl || !fields.some(detailSelector)) return result;
+
   try {
-    // In a real implementation, we would use the scrapeWebpage function
-    const url = `${scraperConfig.sourceUrl}${pageNumber}`;
-    const charities = await scrapeWebpage(url);
-    
-    // For demo purposes, we'll use the mock data
-    return new Promise((resolve) => {
-      // Simulate network delay
-      setTimeout(() => {
-        // For the first page, return some real charity data
-        if (pageNumber === 1) {
-          resolve({
-            charities: realCharityData,
-            hasMore: true
-          });
-          return;
-        }
-        
-        // For subsequent pages, generate more charities
-        // Stop after page 20 to simulate reaching the end
-        if (pageNumber > 20) {
-          resolve({
-            charities: [],
-            hasMore: false
-          });
-          return;
-        }
-        
-        // Generate 5-10 charities per page
-        const count = Math.floor(Math.random() * 6) + 5;
-        const charities = generateMoreCharities(pageNumber, count);
-        
-        resolve({
-          charities,
-          hasMore: pageNumber < 20
-        });
-      }, 1000); // 1 second delay to simulate network request
-    });
-  } catch (error) {
-    console.error(`Error fetching charity page ${pageNumber}:`, error);
+    const waitFor = fields.find(detailSelector)?.detailSelector;
+    const $ = cheerio.load(await loadHtml(detailUrl, config, { waitFor }));
+    const checks = checkFields($, undefined, fields, detailSelector, detailUrl);
     return {
-      charities: [],
-      hasMore: false
+      ...result,
+      detail: { url: detailUrl, fields: checks },
+      warnings: [...result.warnings, ...fieldWarnings([checks], fields, 'on the detail page')]
     };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { ...result, warnings: [...result.warnings, `Could not load the detail page ${detailUrl}: ${message}`] };
+  }
+}
+
+// Page source that scrapes the configured site
+const liveSource: PageSource = {
+  id: 'live',
+  label: 'Live scraping',
+  async fetchPage(cursor: PageCursor, config: ScraperConfig, log: LogSink, shouldStop = () => false): Promise<PageResult> {
+    const url = cursor.url ?? buildPageUrl(config, cursor.pageNumber);
+    const fields = getSchema(config);
+    // A page stopped during its detail pages goes on from the list it had loaded
+    const listed = cursor.unfinished?.stage === 'details' ? cursor.unfinished : await scrapeListPage(url, config, log, shouldStop);
+    const page = await scrapeDetailPages(listed, config, fields, log, shouldStop);
+    if (page.detailed < page.charities.length) {
+      throw new PageStoppedError(cursor.pageNumber, { stage: 'details', ...page });
+    }
+    return advanceCursor(config, cursor, keepComplete(page.charities, fields, url, log), page.nextLink);
   }
-}
\ No newline at end of file
+};
+
+// All available page sources, keyed by id
+export const pageSources: Record<PageSourceId, PageSource> = {
+  live: liveSource,
+  demo: demoSource
+};
+
+// Get the page source selected in a configuration (the active profile's by default)
+export function getActiveSource(config: ScraperConfig = getScraperConfig()): PageSource {
+  return pageSources[config.source] ?? liveSource;
+}
+
+// Fetch charity data from the page a cursor points at; errors are passed on so the run can stop at this page
+export function fetchCharityPage(
+  cursor: PageCursor,
+  config: ScraperConfig = getScraperConfig(),
+  log: LogSink = consoleSink,
+  shouldStop: () => boolean = () => false
+): Promise<PageResult> {
+  return getActiveSource(config).fetchPage(cursor, config, log, shouldStop);
+}
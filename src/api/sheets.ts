@@ -0,0 +1,226 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import type { Charity } from './scraper';
+import { SchemaField, formatFieldValue, getFieldValue } from './schema';
+import { groupByState } from './records';
+import { loadJson, saveJson } from '../utils/storage';
+import { extractDomain } from '../utils/url';
+import { columnName } from '../utils/xlsx';
+
+// Constants
+const SETTINGS_KEY = 'sheetsSettings';
+const DEFAULT_BASE_URL = 'https://sheets.googleapis.com';
+
+// Types
+export interface SheetsSettings {
+  spreadsheetId: string;
+  // Sheets API root; point at a local stand-in server for testing
+  baseUrl: string;
+  // Rows sent per values.batchUpdate request
+  batchSize: number;
+  // Pause between write requests, to stay under the per-minute quota
+  requestDelayMs: number;
+}
+
+export interface SheetsDestination extends SheetsSettings {
+  // Supplies an OAuth access token with the spreadsheets scope (optional for stand-in servers)
+  getAccessToken?: () => Promise<string>;
+}
+
+export interface SheetsExportResult {
+  tabsCreated: string[];
+  inserted: number;
+  updated: number;
+}
+
+interface TabRows {
+  // Row id to 1-based row number
+  ids: Map<string, number>;
+  // Last used row, including the header
+  lastRow: number;
+}
+
+// Minimal Sheets API client; paths are appended directly to the spreadsheet URL (e.g. ':batchUpdate')
+interface SheetsClient {
+  get(path: string, config?: AxiosRequestConfig): Promise<{ data: SheetsResponse }>;
+  post(path: string, body: unknown): Promise<unknown>;
+}
+
+interface SheetsResponse {
+  sheets?: { properties: { title: string } }[];
+  valueRanges?: { values?: string[][] }[];
+}
+
+interface ValueRange {
+  range: string;
+  values: string[][];
+}
+
+const defaultSettings: SheetsSettings = {
+  spreadsheetId: '',
+  baseUrl: DEFAULT_BASE_URL,
+  batchSize: 500,
+  requestDelayMs: 1000
+};
+
+let settings: SheetsSettings = { ...defaultSettings, ...loadJson<Partial<SheetsSettings>>(SETTINGS_KEY, {}) };
+
+// Get saved Google Sheets settings
+export function getSheetsSettings(): SheetsSettings {
+  return settings;
+}
+
+// Update saved Google Sheets settings
+export function updateSheetsSettings(changes: Partial<SheetsSettings>): SheetsSettings {
+  settings = { ...settings, ...changes };
+  saveJson(SETTINGS_KEY, settings);
+  return settings;
+}
+
+// Stable identifier for a charity row, so re-exports update rows instead of duplicating them
+export function charityRowId(charity: Charity): string {
+  if (charity.detailUrl) return charity.detailUrl;
+  const domain = extractDomain(charity.website);
+  if (domain) return domain;
+  return `${charity.name}|${charity.address}`.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Quote a tab title for use in A1 notation
+function tabRange(title: string, range: string): string {
+  return `'${title.replace(/'/g, "''")}'!${range}`;
+}
+
+// Header row: the row ID, then one column per field
+function headerRow(fields: SchemaField[]): string[] {
+  return ['ID', ...fields.map(field => field.label)];
+}
+
+// Convert a charity to a sheet row in header order
+function toRow(charity: Charity, fields: SchemaField[]): string[] {
+  return [charityRowId(charity), ...fields.map(field => formatFieldValue(getFieldValue(charity, field.key)))];
+}
+
+// Split a list into chunks of at most `size` items
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Wait between requests
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Create an API client for one spreadsheet
+async function createClient(destination: SheetsDestination): Promise<SheetsClient> {
+  const headers: Record<string, string> = {};
+  if (destination.getAccessToken) {
+    headers.Authorization = `Bearer ${await destination.getAccessToken()}`;
+  }
+  const root = `${destination.baseUrl.replace(/\/$/, '')}/v4/spreadsheets/${encodeURIComponent(destination.spreadsheetId)}`;
+
+  return {
+    get: (path, config) => axios.get<SheetsResponse>(`${root}${path}`, { ...config, headers }),
+    post: (path, body) => axios.post(`${root}${path}`, body, { headers })
+  };
+}
+
+// Create any missing state tabs, with a header row, in one request each
+async function ensureTabs(client: SheetsClient, titles: string[], headers: string[]): Promise<string[]> {
+  const response = await client.get('', { params: { fields: 'sheets.properties.title' } });
+  const existing = new Set<string>(
+    (response.data.sheets ?? []).map(sheet => sheet.properties.title)
+  );
+  const missing = titles.filter(title => !existing.has(title));
+  if (missing.length === 0) return [];
+
+  await client.post(':batchUpdate', {
+    requests: missing.map(title => ({ addSheet: { properties: { title } } }))
+  });
+  await client.post('/values:batchUpdate', {
+    valueInputOption: 'RAW',
+    data: missing.map(title => ({ range: tabRange(title, `A1:${columnName(headers.length - 1)}1`), values: [headers] }))
+  });
+
+  return missing;
+}
+
+// Read the ID column of each tab to find existing rows
+async function readRowIds(client: SheetsClient, titles: string[]): Promise<Map<string, TabRows>> {
+  const response = await client.get('/values:batchGet', {
+    params: { ranges: titles.map(title => tabRange(title, 'A:A')) },
+    paramsSerializer: { indexes: null }
+  });
+
+  const result = new Map<string, TabRows>();
+  titles.forEach((title, index) => {
+    const values = response.data.valueRanges?.[index]?.values ?? [];
+    const ids = new Map<string, number>();
+    values.forEach((row, rowIndex) => {
+      if (rowIndex > 0 && row[0]) ids.set(row[0], rowIndex + 1);
+    });
+    result.set(title, { ids, lastRow: Math.max(values.length, 1) });
+  });
+  return result;
+}
+
+// Write charities to a Google Sheet, one tab per state with a column per field, updating rows that already exist
+export async function exportToGoogleSheets(
+  charities: Charity[],
+  destination: SheetsDestination,
+  fields: SchemaField[],
+  onProgress?: (written: number, total: number) => void
+): Promise<SheetsExportResult> {
+  if (!destination.spreadsheetId) {
+    throw new Error('A spreadsheet ID is required for Google Sheets export');
+  }
+
+  const client = await createClient(destination);
+
+  // Group by state, sorted A-Z by the first field within each tab
+  const byState = groupByState(charities);
+  const titles = [...byState.keys()].sort();
+
+  const headers = headerRow(fields);
+  const lastColumn = columnName(headers.length - 1);
+  const tabsCreated = await ensureTabs(client, titles, headers);
+  const rowIds = await readRowIds(client, titles);
+
+  const updates: ValueRange[] = [];
+  let inserted = 0;
+  let updated = 0;
+
+  for (const title of titles) {
+    const { ids, lastRow } = rowIds.get(title)!;
+    let nextRow = lastRow + 1;
+    const rows = byState.get(title)!
+      .map(charity => toRow(charity, fields))
+      .sort((a, b) => (a[1] ?? '').localeCompare(b[1] ?? ''));
+
+    for (const row of rows) {
+      const existingRow = ids.get(row[0]);
+      const rowNumber = existingRow ?? nextRow++;
+      if (existingRow) {
+        updated++;
+      } else {
+        // Later duplicates within the same export update this row instead of appending again
+        ids.set(row[0], rowNumber);
+        inserted++;
+      }
+      updates.push({ range: tabRange(title, `A${rowNumber}:${lastColumn}${rowNumber}`), values: [row] });
+    }
+  }
+
+  let written = 0;
+  const batches = chunk(updates, Math.max(1, destination.batchSize));
+  for (const [index, batch] of batches.entries()) {
+    if (index > 0) await delay(destination.requestDelayMs);
+    await client.post('/values:batchUpdate', { valueInputOption: 'RAW', data: batch });
+    written += batch.length;
+    onProgress?.(written, updates.length);
+  }
+
+  return { tabsCreated, inserted, updated };
+}
@@ -0,0 +1,212 @@
+import { absoluteUrl } from '../utils/url';
+
+// Types
+export type TransformType = 'regex' | 'whitespace' | 'case' | 'absoluteUrl' | 'number' | 'phone';
+
+export type TextCase = 'lower' | 'upper' | 'title';
+
+// One step of a field's transform chain, applied to the extracted text before it is converted to the field's type
+export interface FieldTransform {
+  type: TransformType;
+  // Regex: pattern to match and the capture group kept (the whole match when 0)
+  pattern?: string;
+  group?: number;
+  ignoreCase?: boolean;
+  // Case: how letters are changed
+  textCase?: TextCase;
+  // Number: decimal separator the site uses
+  decimal?: '.' | ',';
+  // Phone: ISO country code for numbers written without one, e.g. US or GB
+  country?: string;
+}
+
+// Calling code, national trunk prefix and national number length of a country
+interface DialingPlan {
+  code: string;
+  trunk: string;
+  // Fewest and most digits after the trunk prefix
+  lengths: [number, number];
+}
+
+// Constants
+export const transformTypes: Record<TransformType, string> = {
+  regex: 'Regex capture',
+  whitespace: 'Collapse whitespace',
+  case: 'Change case',
+  absoluteUrl: 'Absolute URL',
+  number: 'Number / currency',
+  phone: 'Phone (E.164)'
+};
+
+export const textCases: Record<TextCase, string> = {
+  lower: 'lowercase',
+  upper: 'UPPERCASE',
+  title: 'Title Case'
+};
+
+const DEFAULT_COUNTRY = 'US';
+
+// Countries numbers can default to; Italy keeps its leading 0 after the calling code
+export const dialingPlans: Record<string, DialingPlan> = {
+  US: { code: '1', trunk: '1', lengths: [10, 10] },
+  CA: { code: '1', trunk: '1', lengths: [10, 10] },
+  GB: { code: '44', trunk: '0', lengths: [9, 10] },
+  IE: { code: '353', trunk: '0', lengths: [7, 9] },
+  AU: { code: '61', trunk: '0', lengths: [9, 9] },
+  NZ: { code: '64', trunk: '0', lengths: [8, 10] },
+  DE: { code: '49', trunk: '0', lengths: [6, 13] },
+  FR: { code: '33', trunk: '0', lengths: [9, 9] },
+  ES: { code: '34', trunk: '', lengths: [9, 9] },
+  IT: { code: '39', trunk: '', lengths: [6, 11] },
+  NL: { code: '31', trunk: '0', lengths: [9, 9] },
+  BE: { code: '32', trunk: '0', lengths: [8, 9] },
+  CH: { code: '41', trunk: '0', lengths: [9, 9] },
+  AT: { code: '43', trunk: '0', lengths: [7, 13] },
+  SE: { code: '46', trunk: '0', lengths: [7, 10] },
+  NO: { code: '47', trunk: '', lengths: [8, 8] },
+  DK: { code: '45', trunk: '', lengths: [8, 8] },
+  IN: { code: '91', trunk: '0', lengths: [10, 10] },
+  MX: { code: '52', trunk: '', lengths: [10, 10] },
+  BR: { code: '55', trunk: '0', lengths: [10, 11] },
+  ZA: { code: '27', trunk: '0', lengths: [9, 9] },
+  JP: { code: '81', trunk: '0', lengths: [9, 10] },
+  SG: { code: '65', trunk: '', lengths: [8, 8] }
+};
+
+// A run of digits with the separators phone numbers are written with, optionally after + or 00
+const PHONE_PATTERN = /(?:\+|\b00)?\(?\d[\d\s().-]{5,}\d/g;
+// A number with its thousands and decimal separators, and an optional k, M or B suffix
+const NUMBER_PATTERN = /(-?\d[\d.,'\u00a0\u202f]*)(?:([kmb])\b)?/i;
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+// Compile a regex transform's pattern
+function compilePattern(transform: FieldTransform): RegExp {
+  return new RegExp(transform.pattern ?? '', transform.ignoreCase ? 'i' : '');
+}
+
+// Keep the chosen capture group of the first match
+function captureGroup(text: string, transform: FieldTransform): string | null {
+  const match = text.match(compilePattern(transform));
+  if (!match) return null;
+  return match[transform.group ?? (match.length > 1 ? 1 : 0)] ?? null;
+}
+
+// Change the case of letters
+function changeCase(text: string, textCase: TextCase = 'lower'): string {
+  switch (textCase) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'title':
+      return text.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase());
+    default:
+      return text.toLowerCase();
+  }
+}
+
+// Read the first number in text such as "$1,299.50", "1.299,50 €" or "$2.5M"
+export function parseNumber(text: string, decimal: '.' | ',' = '.'): number | null {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  const thousands = decimal === ',' ? /[.'\u00a0\u202f]/g : /[,'\u00a0\u202f]/g;
+  const value = Number(match[1].replace(/[.,]+$/, '').replace(thousands, '').replace(decimal, '.'));
+  if (!Number.isFinite(value)) return null;
+  return match[2] ? value * MULTIPLIERS[match[2].toLowerCase()] : value;
+}
+
+// Find a phone number in text and write it in E.164 form (+ and up to 15 digits).
+// Numbers without a calling code are taken to be from the given country.
+export function parsePhone(text: string, country = DEFAULT_COUNTRY): string | null {
+  const plan = dialingPlans[country.toUpperCase()] ?? dialingPlans[DEFAULT_COUNTRY];
+  // Page text often holds other digit runs, such as years or tax IDs, before the phone number
+  for (const [written] of text.matchAll(PHONE_PATTERN)) {
+    const phone = toE164(written.trim(), plan);
+    if (phone) return phone;
+  }
+  return null;
+}
+
+// Write one candidate number in E.164 form, or null when it cannot be a phone number
+function toE164(written: string, plan: DialingPlan): string | null {
+  let digits = written.replace(/\D/g, '');
+
+  if (written.startsWith('+')) {
+    // Already international
+  } else if (written.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (plan.code === '1') {
+    // North American numbers: ten digits, with area and exchange codes that never start with 0 or 1
+    if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+    if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) return null;
+    digits = `1${digits}`;
+  } else {
+    // National numbers start with the trunk prefix where the country has one and have its length,
+    // so other digit runs, such as dates or reference numbers, are not taken for phone numbers
+    if (plan.trunk) {
+      if (!digits.startsWith(plan.trunk)) return null;
+      digits = digits.slice(plan.trunk.length);
+    }
+    if (digits.length < plan.lengths[0] || digits.length > plan.lengths[1]) return null;
+    digits = plan.code + digits;
+  }
+
+  return digits.length >= 8 && digits.length <= 15 && !digits.startsWith('0') ? `+${digits}` : null;
+}
+
+// Apply one transform; null means the text holds no usable value
+function applyTransform(text: string, transform: FieldTransform, pageUrl?: string): string | null {
+  switch (transform.type) {
+    case 'regex':
+      return captureGroup(text, transform);
+    case 'whitespace':
+      return text.replace(/\s+/g, ' ').trim();
+    case 'case':
+      return changeCase(text, transform.textCase);
+    case 'absoluteUrl':
+      return pageUrl ? absoluteUrl(text.trim(), pageUrl) : text;
+    case 'number': {
+      const value = parseNumber(text, transform.decimal);
+      return value === null ? null : String(value);
+    }
+    case 'phone':
+      return parsePhone(text, transform.country);
+    default:
+      return text;
+  }
+}
+
+// Run extracted text through a transform chain in order, stopping at the first step that finds nothing
+export function applyTransforms(text: string, transforms: FieldTransform[] = [], pageUrl?: string): string | null {
+  let value: string | null = text;
+  for (const transform of transforms) {
+    value = applyTransform(value, transform, pageUrl);
+    if (value === null || value === '') return null;
+  }
+  return value;
+}
+
+// Validate a transform chain, returning human-readable problems
+export function validateTransforms(transforms: FieldTransform[]): string[] {
+  const errors: string[] = [];
+  transforms.forEach((transform, index) => {
+    const step = `transform ${index + 1}`;
+    if (!(transform.type in transformTypes)) {
+      errors.push(`${step}: unknown transform "${transform.type}"`);
+    } else if (transform.type === 'regex') {
+      try {
+        compilePattern(transform);
+        // An empty alternative always matches, so the result has one entry per group
+        const groups = new RegExp(`${transform.pattern ?? ''}|`).exec('')!.length - 1;
+        if (!transform.pattern) errors.push(`${step}: enter a pattern`);
+        if (transform.group !== undefined && (!Number.isInteger(transform.group) || transform.group < 0 || transform.group > groups)) {
+          errors.push(`${step}: the pattern has no group ${transform.group}`);
+        }
+      } catch {
+        errors.push(`${step}: invalid pattern ${transform.pattern}`);
+      }
+    } else if (transform.type === 'phone' && transform.country && !dialingPlans[transform.country.toUpperCase()]) {
+      errors.push(`${step}: unsupported country ${transform.country}`);
+    }
+  });
+  return errors;
+}
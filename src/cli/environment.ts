@@ -0,0 +1,45 @@
+// Set up Node before any module that loads saved settings is imported: reads .env and keeps
+// everything the browser would put in localStorage in JSON files instead.
+import 'dotenv/config';
+import fs from 'node:fs';
+import path from 'node:path';
+import { StorageBackend, setStorageBackend } from '../utils/storage';
+
+// Constants
+export const DATA_DIR = path.resolve(process.env.SCRAPER_DATA_DIR || '.scraper');
+
+// Map a storage key to its file, keeping keys such as "scrapeJob:job-1" filesystem-safe
+function keyPath(key: string): string {
+  return path.join(DATA_DIR, `${encodeURIComponent(key)}.json`);
+}
+
+// Storage backend with one JSON file per key under DATA_DIR
+function createFileStorage(): StorageBackend {
+  return {
+    getItem(key) {
+      try {
+        return fs.readFileSync(keyPath(key), 'utf8');
+      } catch {
+        return null;
+      }
+    },
+    setItem(key, value) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+      // Write then rename, so an interrupted run never leaves a half-written file
+      const temporary = `${keyPath(key)}.tmp`;
+      fs.writeFileSync(temporary, value, 'utf8');
+      fs.renameSync(temporary, keyPath(key));
+    },
+    removeItem(key) {
+      fs.rmSync(keyPath(key), { force: true });
+    },
+    keys() {
+      if (!fs.existsSync(DATA_DIR)) return [];
+      return fs.readdirSync(DATA_DIR)
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    }
+  };
+}
+
+setStorageBackend(createFileStorage());
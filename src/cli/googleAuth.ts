@@ -0,0 +1,44 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import axios from 'axios';
+
+// Constants
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+// Types
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+// Encode JSON as base64url for a JWT segment
+function base64url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Exchange a service account key file for a short-lived access token with the spreadsheets scope
+export async function getServiceAccountToken(keyFile: string): Promise<string> {
+  const key = JSON.parse(fs.readFileSync(keyFile, 'utf8')) as ServiceAccountKey;
+  if (!key.client_email || !key.private_key) {
+    throw new Error(`${keyFile} is not a service account key file`);
+  }
+
+  const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const unsigned = `${base64url({ alg: 'RS256', typ: 'JWT' })}.${base64url({
+    iss: key.client_email,
+    scope: SHEETS_SCOPE,
+    aud: tokenUri,
+    iat: issuedAt,
+    exp: issuedAt + 3600
+  })}`;
+  const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(key.private_key, 'base64url');
+
+  const response = await axios.post(tokenUri, new URLSearchParams({
+    grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+    assertion: `${unsigned}.${signature}`
+  }));
+  return response.data.access_token;
+}
@@ -0,0 +1,357 @@
+// Must stay the first import: it points storage at files before settings are loaded
+import { DATA_DIR } from './environment';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ScraperConfig } from '../api/scraper';
+import { ScraperProfile, getActiveProfile, listProfiles, parseProfiles, validateScraperConfig } from '../api/profiles';
+import {
+  DEFAULT_BATCH_SIZE,
+  JobSettings,
+  ScrapeJob,
+  createJob,
+  isResumable,
+  listJobSummaries,
+  loadJob,
+  validateJobSettings
+} from '../api/jobs';
+import { runJob } from '../api/runner';
+import { ExportFormat, exportFormats, exportRecords, getExportSettings, validateExportSettings } from '../api/exports';
+import { exportToGoogleSheets, getSheetsSettings } from '../api/sheets';
+import { closeBrowser } from '../api/renderer';
+import { getSchema } from '../api/schema';
+import { formatLogEntry } from '../api/log';
+import { QualityFilter, qualityFilters } from '../api/quality';
+import { compareDatasets, exportChanges } from '../api/compare';
+import { getServiceAccountToken } from './googleAuth';
+
+// Exit codes, so unattended runs can tell what happened
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  run                 Start a new job
+    --profile <id|file>   Saved profile id, or a profile JSON file exported from the UI (default: active profile)
+    --url <url>           Scrape this URL with the profile's selectors
+    --start-page <n>      First page to scrape (default 1)
+    --end-page <n>        Last page to scrape
+  resume <job-id>     Continue an interrupted or paused job
+  export <job-id>     Write a job's records to a file or Google Sheets
+    --format <fmt>        csv, json, ndjson, xlsx, csv-zip (one CSV per state) or sheets
+                          (default: from the --out extension, else the saved export format)
+    --spreadsheet-id <id> Spreadsheet for sheets export (default: saved Sheets settings, then GOOGLE_SHEET_ID)
+    --token <token>       OAuth access token for sheets export
+    --credentials <file>  Service account key file for sheets export
+                          (default: GOOGLE_APPLICATION_CREDENTIALS, then ./credentials.json)
+    --quality <filter>    Records to write by quality flags: all, noErrors, clean or flagged
+                          (default: the saved export setting)
+    --changes-since <id>  Write only the records added, removed or changed since an earlier job,
+                          with what changed in each (file exports only, without a quality filter)
+  jobs                List saved jobs
+  profiles            List saved profiles
+
+Options for run and resume:
+  --batch-size <n>      Items per batch; the run pauses when a batch is full (default ${DEFAULT_BATCH_SIZE})
+  --until-exhausted     Start the next batch automatically instead of pausing
+  --batch-delay <s>     Seconds to wait between automatic batches (default 5)
+  --max-items <n>       Stop the job for good after this many items
+  --out <path>          Also export the records here when the run stops
+  --format <fmt>        Format for --out, as for export
+  --quality <filter>    Quality filter for --out, as for export
+
+File exports use the columns, sort order, delimiter, encoding and quality filter saved in ${DATA_DIR}/exportSettings.json.
+
+Data is kept in ${DATA_DIR} (set SCRAPER_DATA_DIR to change it).`;
+
+// Types
+type OutputFormat = ExportFormat | 'sheets';
+
+// Thrown for bad command lines, so they exit with the usage code
+class UsageError extends Error {}
+
+// Parse the command line, exiting with the usage code on unknown or malformed options
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        profile: { type: 'string' },
+        url: { type: 'string' },
+        'start-page': { type: 'string' },
+        'end-page': { type: 'string' },
+        'batch-size': { type: 'string' },
+        'until-exhausted': { type: 'boolean' },
+        'batch-delay': { type: 'string' },
+        'max-items': { type: 'string' },
+        out: { type: 'string' },
+        format: { type: 'string' },
+        quality: { type: 'string' },
+        'changes-since': { type: 'string' },
+        'spreadsheet-id': { type: 'string' },
+        token: { type: 'string' },
+        credentials: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.log(USAGE);
+    process.exit(EXIT_USAGE);
+  }
+}
+
+const { positionals, values: options } = parseCommandLine();
+
+// Set by Ctrl+C; the job is saved before exiting, with what was done of the page being scraped
+let interrupted = false;
+
+// Print a progress line with a timestamp
+function log(message: string): void {
+  console.log(`[${new Date().toLocaleTimeString()}] ${message}`);
+}
+
+// Read a whole-number option, at least 1 unless a lower minimum is given
+function numberOption(name: string, value: string | undefined, min = 1): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}`);
+  }
+  return number;
+}
+
+// Job settings given on the command line; options left out keep the job's own settings
+function settingsOptions(): Partial<JobSettings> {
+  const settings: Partial<JobSettings> = {};
+  const batchSize = numberOption('batch-size', options['batch-size']);
+  const batchDelay = numberOption('batch-delay', options['batch-delay'], 0);
+  const maxItems = numberOption('max-items', options['max-items']);
+  if (batchSize !== undefined) settings.batchSize = batchSize;
+  if (batchDelay !== undefined) settings.batchDelayMs = batchDelay * 1000;
+  if (maxItems !== undefined) settings.maxItems = maxItems;
+  if (options['until-exhausted']) settings.untilExhausted = true;
+  return settings;
+}
+
+// Find the profile named by --profile: a saved id or name, or a JSON file
+function resolveProfile(value: string | undefined): ScraperProfile {
+  if (!value) return getActiveProfile();
+
+  if (fs.existsSync(value)) {
+    return parseProfiles(fs.readFileSync(value, 'utf8'))[0];
+  }
+  const profile = listProfiles().find(p => p.id === value || p.name === value);
+  if (!profile) {
+    throw new UsageError(`No profile "${value}". Run "profiles" to list them, or pass a profile JSON file.`);
+  }
+  return profile;
+}
+
+// Load a job named on the command line
+function requireJob(id: string | undefined): ScrapeJob {
+  if (!id) throw new UsageError('A job id is required. Run "jobs" to list them.');
+  const job = loadJob(id);
+  if (!job) throw new UsageError(`No job "${id}". Run "jobs" to list them.`);
+  return job;
+}
+
+// Pick an export format from --format, the output file's extension or the saved export settings
+function exportFormat(out: string | undefined): OutputFormat {
+  const formats = Object.keys(exportFormats) as ExportFormat[];
+  if (options.format) {
+    if (options.format !== 'sheets' && !formats.includes(options.format as ExportFormat)) {
+      throw new UsageError(`Unknown format "${options.format}"; use ${formats.join(', ')} or sheets`);
+    }
+    return options.format as OutputFormat;
+  }
+
+  const extension = out ? path.extname(out).slice(1).toLowerCase() : '';
+  if (extension === 'jsonl') return 'ndjson';
+  return formats.find(format => exportFormats[format].extension === extension) ?? getExportSettings().format;
+}
+
+// Pick the quality filter for file exports from --quality or the saved export settings
+function qualityFilter(): QualityFilter {
+  const filters = Object.keys(qualityFilters) as QualityFilter[];
+  if (options.quality === undefined) return getExportSettings().quality;
+  if (!filters.includes(options.quality as QualityFilter)) {
+    throw new UsageError(`Unknown quality filter "${options.quality}"; use ${filters.join(', ')}`);
+  }
+  return options.quality as QualityFilter;
+}
+
+// Write a job's records to a file or Google Sheets
+async function exportJob(job: ScrapeJob, out: string | undefined, format: OutputFormat): Promise<void> {
+  const fields = getSchema(job.config);
+  if (format === 'sheets' && options['changes-since']) throw new UsageError('--changes-since only works with file exports');
+  if (options.quality !== undefined && options['changes-since']) {
+    throw new UsageError('--quality does not apply with --changes-since, which writes every change');
+  }
+  if (format === 'sheets') {
+    const spreadsheetId = options['spreadsheet-id'] || getSheetsSettings().spreadsheetId || process.env.GOOGLE_SHEET_ID || '';
+    const credentials = options.credentials ?? process.env.GOOGLE_APPLICATION_CREDENTIALS
+      ?? (fs.existsSync('credentials.json') ? 'credentials.json' : undefined);
+    const token = options.token;
+    const result = await exportToGoogleSheets(
+      job.charities,
+      {
+        ...getSheetsSettings(),
+        spreadsheetId,
+        getAccessToken: token ? async () => token : credentials ? () => getServiceAccountToken(credentials) : undefined
+      },
+      fields,
+      (written, total) => log(`Wrote ${written} of ${total} rows to Google Sheets`)
+    );
+    log(`Google Sheets export complete: ${result.inserted} rows added, ${result.updated} rows updated`);
+    return;
+  }
+
+  const settings = { ...getExportSettings(), format, quality: qualityFilter() };
+  const errors = validateExportSettings(settings, fields);
+  if (errors.length > 0) throw new UsageError(`Fix the export settings first:\n${errors.join('\n')}`);
+
+  let exported;
+  let total = job.charities.length;
+  if (options['changes-since']) {
+    const baseline = requireJob(options['changes-since']);
+    const comparison = compareDatasets(baseline.charities, job.charities, fields);
+    log(`Since job ${baseline.id}: ${comparison.added} added, ${comparison.removed} removed, ${comparison.changed} changed, ${comparison.unchanged} unchanged`);
+    exported = exportChanges(comparison.changes, `${job.id}_changes`, fields, settings);
+    total = comparison.changes.length;
+  } else {
+    exported = exportRecords(job.charities, job.id, fields, settings);
+  }
+  const file = out ?? exported.filename;
+  fs.writeFileSync(file, exported.data);
+  const left = total - exported.count;
+  log(`Exported ${exported.count} records to ${file}${left > 0 ? ` (${left} left out by the quality filter)` : ''}`);
+}
+
+// Run a job with settings from the command line, then report how it ended
+async function runFromCommandLine(initial: ScrapeJob): Promise<number> {
+  const settings = { ...initial.settings, ...settingsOptions() };
+  const errors = validateJobSettings(settings);
+  if (errors.length > 0) throw new UsageError(errors.join('\n'));
+
+  log(`Job ${initial.id} (${initial.name})`);
+  const job = await runJob({ ...initial, settings }, {
+    // Warnings and errors go to stderr, so they stay visible when progress is redirected
+    onLog: entry => (entry.level === 'info' ? console.log : console.error)(formatLogEntry(entry)),
+    shouldStop: () => interrupted
+  });
+
+  if (job.status === 'failed') {
+    log(`Job saved; continue with: npm run cli -- resume ${job.id}`);
+    return EXIT_FAILED;
+  }
+  if (job.hasMore) {
+    log(`Continue with: npm run cli -- resume ${job.id}`);
+  }
+
+  if (options.out) {
+    await exportJob(job, options.out, exportFormat(options.out));
+  }
+  return interrupted ? EXIT_INTERRUPTED : EXIT_OK;
+}
+
+// Start a job from a profile and optional URL
+async function runCommand(): Promise<number> {
+  const profile = resolveProfile(options.profile);
+  const config: ScraperConfig = options.url ? { ...profile.config, source: 'live', sourceUrl: options.url } : profile.config;
+
+  const errors = validateScraperConfig(config);
+  if (errors.length > 0) {
+    throw new UsageError(errors.map(error => `Configuration error: ${error}`).join('\n'));
+  }
+
+  const firstPage = numberOption('start-page', options['start-page']);
+  const lastPage = numberOption('end-page', options['end-page']);
+  if (firstPage !== undefined && lastPage !== undefined && lastPage < firstPage) {
+    throw new UsageError('--end-page must not be before --start-page');
+  }
+
+  return runFromCommandLine(createJob(options.url ?? profile.name, config, {
+    profileId: profile.id,
+    firstPage,
+    lastPage,
+    settings: settingsOptions()
+  }));
+}
+
+// Continue a saved job
+async function resumeCommand(): Promise<number> {
+  const job = requireJob(positionals[1]);
+  if (!isResumable(job)) {
+    log(`Job ${job.id} is already ${job.status}.`);
+    return EXIT_OK;
+  }
+  return runFromCommandLine(job);
+}
+
+// Export a saved job
+async function exportCommand(): Promise<number> {
+  const job = requireJob(positionals[1]);
+  await exportJob(job, options.out, exportFormat(options.out));
+  return EXIT_OK;
+}
+
+// List saved jobs
+function jobsCommand(): number {
+  const jobs = listJobSummaries();
+  if (jobs.length === 0) console.log('No saved jobs.');
+  for (const job of jobs) {
+    console.log(`${job.id}  ${job.status.padEnd(9)}  page ${job.cursor.pageNumber}  batch ${job.batchNumber}  ${job.recordCount} records  ${job.updatedAt}  ${job.name}`);
+  }
+  return EXIT_OK;
+}
+
+// List saved profiles
+function profilesCommand(): number {
+  const activeId = getActiveProfile().id;
+  for (const profile of listProfiles()) {
+    console.log(`${profile.id === activeId ? '*' : ' '} ${profile.id}  ${profile.name}`);
+  }
+  return EXIT_OK;
+}
+
+// Run the command named on the command line
+async function main(): Promise<number> {
+  const commands: Record<string, () => number | Promise<number>> = {
+    run: runCommand,
+    resume: resumeCommand,
+    export: exportCommand,
+    jobs: jobsCommand,
+    profiles: profilesCommand
+  };
+
+  const command = commands[positionals[0]];
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? EXIT_OK : EXIT_USAGE;
+  }
+  return command();
+}
+
+process.on('SIGINT', () => {
+  if (interrupted) process.exit(EXIT_INTERRUPTED);
+  interrupted = true;
+  log('Stopping (press Ctrl+C again to quit now)...');
+});
+
+main()
+  .catch(error => {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      return EXIT_USAGE;
+    }
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_FAILED;
+  })
+  .then(async code => {
+    await closeBrowser();
+    process.exit(code);
+  });
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, GitCompare } from 'lucide-react';
+import { Charity } from '../api/scraper';
+import { SchemaField } from '../api/schema';
+import { JobSummary } from '../api/jobs';
+import { fetchJobRecords } from '../api/client';
+import { errorDetails } from '../api/log';
+import { ChangeKind, RecordChange, changeKinds, compareDatasets } from '../api/compare';
+
+interface ComparisonPanelProps {
+  // The open job, compared against an earlier one; give the panel a key per job
+  job: JobSummary;
+  jobs: JobSummary[];
+  records: Charity[];
+  fields: SchemaField[];
+  onExport: (changes: RecordChange[]) => void;
+}
+
+// Changes listed at once; the export has all of them
+const SHOWN_CHANGES = 100;
+
+const kindColors: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-yellow-100 text-yellow-800'
+};
+
+// The latest job from the same profile created before the open one, which a new run of the same search compares against
+function previousRun(job: JobSummary, jobs: JobSummary[]): JobSummary | undefined {
+  return jobs
+    .filter(other => other.id !== job.id && other.createdAt < job.createdAt)
+    .filter(other => (job.profileId ? other.profileId === job.profileId : other.name === job.name))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+// Compares the open job's records with an earlier run: added, removed and changed organizations
+function ComparisonPanel({ job, jobs, records, fields, onExport }: ComparisonPanelProps) {
+  const others = jobs.filter(other => other.id !== job.id);
+  // The earlier run chosen in the list; until one is, the previous run of the same search
+  const [chosenId, setChosenId] = useState<string | null>(null);
+  const baselineId = chosenId ?? previousRun(job, jobs)?.id ?? '';
+  const [baseline, setBaseline] = useState<Charity[] | null>(null);
+  const [error, setError] = useState('');
+  const [kind, setKind] = useState<ChangeKind | ''>('');
+
+  useEffect(() => {
+    setBaseline(null);
+    setError('');
+    if (!baselineId) return;
+    let current = true;
+    fetchJobRecords(baselineId)
+      .then(page => current && setBaseline(page.records))
+      .catch(reason => current && setError(errorDetails(reason).message));
+    return () => {
+      current = false;
+    };
+  }, [baselineId]);
+
+  const comparison = useMemo(
+    () => (baseline ? compareDatasets(baseline, records, fields) : null),
+    [baseline, records, fields]
+  );
+  const shown = comparison?.changes.filter(change => !kind || change.kind === kind) ?? [];
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div className="flex items-center">
+          <GitCompare size={20} className="mr-2 text-blue-500" />
+          <h2 className="text-xl font-semibold text-gray-800">Changes Since an Earlier Run</h2>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={baselineId}
+            onChange={(e) => setChosenId(e.target.value)}
+            className="p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Compare with…</option>
+            {others.map(other => (
+              <option key={other.id} value={other.id}>
+                {other.name} ({new Date(other.createdAt).toLocaleDateString()}, {other.recordCount} records)
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onExport(shown)}
+            disabled={shown.length === 0}
+            title="Export the listed changes with the export settings"
+            className={`text-green-700 hover:text-green-900 flex items-center ${shown.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Download size={14} className="mr-1" />
+            Export only changes
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">Could not load the earlier run: {error}</p>}
+      {!baselineId && <p className="text-sm text-gray-500">Choose an earlier job to see what changed since.</p>}
+      {baselineId && !comparison && !error && <p className="text-sm text-gray-500">Loading the earlier run…</p>}
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-sm mb-4">
+            {(Object.keys(changeKinds) as ChangeKind[]).map(value => (
+              <button
+                key={value}
+                onClick={() => setKind(kind === value ? '' : value)}
+                className={`rounded-md p-2 ${kindColors[value]} ${kind === value ? 'ring-2 ring-blue-400' : ''}`}
+              >
+                <div className="font-bold">{comparison[value]}</div>
+                {changeKinds[value].toLowerCase()}
+              </button>
+            ))}
+            <div className="rounded-md p-2 bg-gray-100 text-gray-700">
+              <div className="font-bold">{comparison.unchanged}</div>
+              unchanged
+            </div>
+          </div>
+
+          {Object.keys(comparison.fieldCounts).length > 0 && (
+            <p className="text-xs text-gray-500 mb-3">
+              Changed fields: {fields
+                .filter(field => comparison.fieldCounts[field.key])
+                .map(field => `${field.label} (${comparison.fieldCounts[field.key]})`)
+                .join(', ')}
+            </p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <tbody>
+                {shown.slice(0, SHOWN_CHANGES).map((change, index) => (
+                  <tr key={index} className="border-b border-gray-100 align-top">
+                    <td className="p-2 w-24">
+                      <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${kindColors[change.kind]}`}>
+                        {changeKinds[change.kind]}
+                      </span>
+                    </td>
+                    <td className="p-2 font-medium text-gray-800">{change.record.name || '—'}</td>
+                    <td className="p-2 text-gray-600">
+                      {change.fields.map(field => (
+                        <div key={field.field}>
+                          <span className="text-gray-500">{field.label}:</span>{' '}
+                          <span className="line-through text-red-600">{field.before || '(empty)'}</span>{' → '}
+                          <span className="text-green-700">{field.after || '(empty)'}</span>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === 0 && (
+              <p className="text-center py-8 text-gray-500">
+                {comparison.changes.length === 0 ? 'No changes since the earlier run' : 'No changes of this kind'}
+              </p>
+            )}
+          </div>
+          {shown.length > SHOWN_CHANGES && (
+            <p className="text-xs text-gray-500 mt-2">Showing the first {SHOWN_CHANGES} of {shown.length} changes; the export has all of them.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparisonPanel;
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { ArrowUp, RefreshCw, Trash2 } from 'lucide-react';
+import { EmailProviderId, EnrichmentSettings as Settings, EnrichmentStatus, emailProviders } from '../api/enrichment';
+import { LogEvent, errorDetails } from '../api/log';
+import {
+  clearEnrichmentCache,
+  fetchEnrichmentStatus,
+  saveEnrichmentSettings,
+  syncEnrichmentUsage
+} from '../api/client';
+
+interface EnrichmentSettingsProps {
+  isRunning: boolean;
+  onLog: (message: string, event?: Partial<LogEvent>) => void;
+}
+
+// Enrichment runs on the scraping server, so these settings and counters live there too
+function EnrichmentSettings({ isRunning, onLog }: EnrichmentSettingsProps) {
+  const [status, setStatus] = useState<EnrichmentStatus | null>(null);
+
+  // Loads once: the app keeps onLog stable
+  useEffect(() => {
+    fetchEnrichmentStatus()
+      .then(setStatus)
+      .catch(error => onLog('Could not load enrichment settings', { level: 'error', error: errorDetails(error) }));
+  }, [onLog]);
+
+  if (!status) {
+    return (
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Email Enrichment
+        </label>
+        <p className="text-xs text-gray-500">Loading enrichment settings from the scraping server...</p>
+      </div>
+    );
+  }
+
+  const { settings, usage, cacheSize } = status;
+
+  // Enabled providers in their run order, followed by the disabled ones
+  const allProviders = Object.keys(emailProviders) as EmailProviderId[];
+  const orderedProviders = [
+    ...settings.providers,
+    ...allProviders.filter(id => !settings.providers.includes(id))
+  ];
+
+  const update = async (changes: Partial<Settings>) => {
+    try {
+      setStatus(await saveEnrichmentSettings(changes));
+    } catch (error) {
+      onLog('Could not save enrichment settings', { level: 'error', error: errorDetails(error) });
+    }
+  };
+
+  const toggleProvider = (id: EmailProviderId, enabled: boolean) => {
+    update({
+      providers: enabled
+        ? orderedProviders.filter(p => p === id || settings.providers.includes(p))
+        : settings.providers.filter(p => p !== id)
+    });
+  };
+
+  const moveUp = (id: EmailProviderId) => {
+    const providers = [...settings.providers];
+    const index = providers.indexOf(id);
+    if (index > 0) {
+      [providers[index - 1], providers[index]] = [providers[index], providers[index - 1]];
+      update({ providers });
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      const synced = await syncEnrichmentUsage();
+      setStatus(synced);
+      onLog(`Hunter usage synced: ${synced.usage.used} searches used this month`);
+    } catch (error) {
+      onLog('Could not sync Hunter usage', { level: 'error', error: errorDetails(error) });
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Clear cached email lookups? Domains will be searched again, which may use Hunter credits.')) return;
+    try {
+      setStatus(await clearEnrichmentCache());
+      onLog('Email lookup cache cleared');
+    } catch (error) {
+      onLog('Could not clear the email cache', { level: 'error', error: errorDetails(error) });
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Email Enrichment
+      </label>
+      <label className="flex items-center text-sm text-gray-700 mb-2">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          disabled={isRunning}
+          className="mr-2"
+        />
+        Look up missing emails after each page is scraped
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="block text-xs text-gray-500 mb-1">Providers (tried in order)</p>
+          <ul className="space-y-1">
+            {orderedProviders.map(id => {
+              const enabled = settings.providers.includes(id);
+              const index = settings.providers.indexOf(id);
+              return (
+                <li key={id} className="flex items-center justify-between bg-gray-50 px-2 py-1 rounded-md text-sm">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={enabled}
+                      onChange={(e) => toggleProvider(id, e.target.checked)}
+                      disabled={isRunning}
+                      className="mr-2"
+                    />
+                    {emailProviders[id].label}
+                  </label>
+                  {enabled && index > 0 && (
+                    <button
+                      onClick={() => moveUp(id)}
+                      disabled={isRunning}
+                      title="Try earlier"
+                      className="text-gray-500 hover:text-gray-800"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div>
+          <label htmlFor="hunterBudget" className="block text-xs text-gray-500 mb-1">
+            Hunter Searches Per Month (hard budget)
+          </label>
+          <input
+            type="number"
+            id="hunterBudget"
+            min={0}
+            value={settings.hunterMonthlyBudget}
+            onChange={(e) => update({ hunterMonthlyBudget: Math.max(0, Number(e.target.value)) })}
+            disabled={isRunning}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+          <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+            <span>Used {usage.used} of {settings.hunterMonthlyBudget} in {usage.period}</span>
+            <button onClick={handleSync} className="text-blue-600 hover:text-blue-800 flex items-center">
+              <RefreshCw size={12} className="mr-1" />
+              Sync with Hunter
+            </button>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
+            <span>{cacheSize} domains cached</span>
+            <button
+              onClick={handleClearCache}
+              disabled={isRunning || cacheSize === 0}
+              className={`text-red-600 hover:text-red-800 flex items-center ${(isRunning || cacheSize === 0) ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Trash2 size={12} className="mr-1" />
+              Clear cache
+            </button>
+          </div>
+        </div>
+      </div>
+      {!status.hunterConfigured && (
+        <p className="text-xs text-yellow-700 mt-2">
+          HUNTER_API_KEY is not set on the scraping server, so Hunter lookups are skipped.
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Each domain is looked up once and the result is cached, so Hunter credits are never spent twice on the same domain.
+      </p>
+    </div>
+  );
+}
+
+export default EnrichmentSettings;
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  ExportColumn,
+  ExportFormat,
+  TextEncoding,
+  delimiters,
+  exportColumns,
+  exportFormats,
+  exportableFields,
+  getExportSettings,
+  textEncodings,
+  updateExportSettings,
+  validateExportSettings
+} from '../api/exports';
+import { SchemaField } from '../api/schema';
+import { QualityFilter, qualityFilters } from '../api/quality';
+
+interface ExportSettingsProps {
+  // Fields of the profile being edited, which exports start from
+  fields: SchemaField[];
+}
+
+// Format, column mapping and text options for file exports
+function ExportSettings({ fields }: ExportSettingsProps) {
+  const [settings, setSettings] = useState(getExportSettings());
+  const errors = validateExportSettings(settings, fields);
+
+  const available = exportableFields(fields);
+  const columns = exportColumns(settings, fields);
+  const included = new Set(columns.map(column => column.field));
+  const excluded = Object.keys(available).filter(field => !included.has(field));
+  const isText = settings.format === 'csv' || settings.format === 'csv-zip';
+
+  const update = (changes: Parameters<typeof updateExportSettings>[0]) => {
+    setSettings(updateExportSettings(changes));
+  };
+
+  const updateColumns = (columns: ExportColumn[]) => update({ columns });
+
+  const toggleField = (field: string) => {
+    updateColumns(included.has(field)
+      ? columns.filter(column => column.field !== field)
+      : [...columns, { field, header: available[field] }]);
+  };
+
+  const renameColumn = (index: number, header: string) => {
+    updateColumns(columns.map((column, i) => i === index ? { ...column, header } : column));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const reordered = [...columns];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    updateColumns(reordered);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        File Export
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="exportFormat" className="block text-xs text-gray-500 mb-1">
+            Format
+          </label>
+          <select
+            id="exportFormat"
+            value={settings.format}
+            onChange={(e) => update({ format: e.target.value as ExportFormat })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {Object.entries(exportFormats).map(([format, { label }]) => (
+              <option key={format} value={format}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="exportSortBy" className="block text-xs text-gray-500 mb-1">
+            Sort By
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="exportSortBy"
+              value={settings.sortBy}
+              onChange={(e) => update({ sortBy: e.target.value })}
+              className="flex-1 p-2 border border-gray-300 rounded-md"
+            >
+              <option value="">First column</option>
+              {Object.entries(available).map(([field, label]) => (
+                <option key={field} value={field}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={settings.descending ? 'desc' : 'asc'}
+              onChange={(e) => update({ descending: e.target.value === 'desc' })}
+              className="p-2 border border-gray-300 rounded-md"
+            >
+              <option value="asc">A–Z / lowest first</option>
+              <option value="desc">Z–A / highest first</option>
+            </select>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="exportDelimiter" className="block text-xs text-gray-500 mb-1">
+            CSV Delimiter
+          </label>
+          <select
+            id="exportDelimiter"
+            value={settings.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+            disabled={!isText}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {Object.entries(delimiters).map(([delimiter, label]) => (
+              <option key={label} value={delimiter}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="exportEncoding" className="block text-xs text-gray-500 mb-1">
+            CSV Encoding
+          </label>
+          <select
+            id="exportEncoding"
+            value={settings.encoding}
+            onChange={(e) => update({ encoding: e.target.value as TextEncoding })}
+            disabled={!isText}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {Object.entries(textEncodings).map(([encoding, label]) => (
+              <option key={encoding} value={encoding}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="exportQuality" className="block text-xs text-gray-500 mb-1">
+            Records by Quality
+          </label>
+          <select
+            id="exportQuality"
+            value={settings.quality}
+            onChange={(e) => update({ quality: e.target.value as QualityFilter })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {Object.entries(qualityFilters).map(([filter, label]) => (
+              <option key={filter} value={filter}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 mb-1">
+        <label className="block text-xs text-gray-500">
+          Columns
+        </label>
+        {settings.columns.length > 0 && (
+          <button onClick={() => updateColumns([])} className="text-xs text-blue-600 hover:text-blue-800">
+            Use the profile's fields
+          </button>
+        )}
+      </div>
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+        {columns.map((column, index) => (
+          <div key={column.field} className="flex items-center gap-2 p-2">
+            <input type="checkbox" checked onChange={() => toggleField(column.field)} title="Leave out of exports" />
+            <span className="w-32 text-sm text-gray-600">{available[column.field]}</span>
+            <input
+              type="text"
+              value={column.header}
+              onChange={(e) => renameColumn(index, e.target.value)}
+              placeholder="Column header"
+              className="flex-1 p-1 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              onClick={() => moveColumn(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+              className={`p-1 text-gray-500 hover:text-gray-800 ${index === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => moveColumn(index, 1)}
+              disabled={index === columns.length - 1}
+              title="Move down"
+              className={`p-1 text-gray-500 hover:text-gray-800 ${index === columns.length - 1 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <ArrowDown size={14} />
+            </button>
+          </div>
+        ))}
+        {excluded.map(field => (
+          <div key={field} className="flex items-center gap-2 p-2 text-gray-400">
+            <input type="checkbox" checked={false} onChange={() => toggleField(field)} title="Add to exports" />
+            <span className="text-sm">{available[field]}</span>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 mt-2 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        JSON and NDJSON use the column headers as keys. The ZIP holds one CSV per state, like the tabs of the Google Sheets export.
+        Choose UTF-8 with BOM when opening CSVs in Excel.
+      </p>
+    </div>
+  );
+}
+
+export default ExportSettings;
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, Upload, X } from 'lucide-react';
+import { Charity } from '../api/scraper';
+import {
+  IMPORT_EXTENSIONS,
+  ImportMapping,
+  ImportMode,
+  ImportTable,
+  guessMapping,
+  importFieldsFor,
+  importModes,
+  mapImportRows,
+  readImportFile
+} from '../api/imports';
+import { SchemaField, formatFieldValue, getFieldValue } from '../api/schema';
+
+interface ImportPanelProps {
+  // Records in the open job, or 0 when a new job will be created for the import
+  recordCount: number;
+  hasJob: boolean;
+  // Fields of the job the records go into
+  fields: SchemaField[];
+  // Records can only be changed while the job is not scraping
+  editable: boolean;
+  // Resolves true once the records are saved
+  onImport: (records: Charity[], mode: ImportMode, fileName: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const SHOWN_ERRORS = 20;
+const PREVIEW_COLUMNS = 6;
+
+// Load a CSV, JSON or XLSX file, map its columns onto record fields and bring it into the open job
+function ImportPanel({ recordCount, hasJob, fields, editable, onImport, onClose }: ImportPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [readError, setReadError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const result = useMemo(() => (table ? mapImportRows(table, mapping, fields) : null), [table, mapping, fields]);
+  const importFields = importFieldsFor(fields);
+  const previewFields = fields.slice(0, PREVIEW_COLUMNS);
+  // Required fields no column is mapped to, which would fail every row
+  const unmapped = fields.filter(field => field.required && !mapping.includes(field.key)).map(field => field.label);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setReadError('');
+    setTable(null);
+    try {
+      const parsed = await readImportFile(file.name, new Uint8Array(await file.arrayBuffer()));
+      if (parsed.rows.length === 0) throw new Error('The file has no data rows');
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers, fields));
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  // Point a column at a field, taking the field away from any other column
+  const mapColumn = (column: number, field: string | null) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field;
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!result || result.records.length === 0) return;
+    if (mode === 'replace' && recordCount > 0
+      && !window.confirm(`Replace all ${recordCount} records with ${result.records.length} imported records? This cannot be undone.`)) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      if (await onImport(result.records, mode, fileName)) onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport = editable && unmapped.length === 0 && !isImporting && (result?.records.length ?? 0) > 0;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Upload size={20} className="mr-2 text-blue-500" />
+          <h2 className="text-xl font-semibold text-gray-800">Import Records</h2>
+        </div>
+        <button onClick={onClose} title="Close" className="text-gray-400 hover:text-gray-600">
+          <X size={18} />
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept={IMPORT_EXTENSIONS.join(',')}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block w-full text-sm text-gray-600 mb-2"
+      />
+      <p className="text-xs text-gray-500 mb-4">
+        CSV (any common delimiter), JSON, NDJSON or XLSX (first sheet). The first row of CSV and XLSX files holds the column headers.
+        {!hasJob && ' A new job is created for the imported records.'}
+      </p>
+
+      {readError && (
+        <div className="text-sm text-red-600 flex items-center mb-4">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          Could not read {fileName}: {readError}
+        </div>
+      )}
+
+      {table && result && (
+        <>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Columns</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+            {table.headers.map((header, column) => (
+              <label key={column} className="text-xs text-gray-500">
+                <span className="block truncate" title={header}>
+                  {header}
+                  {table.rows[0]?.[column] && <span className="text-gray-400"> — e.g. {table.rows[0][column]}</span>}
+                </span>
+                <select
+                  value={mapping[column] ?? ''}
+                  onChange={(e) => mapColumn(column, e.target.value || null)}
+                  className="w-full p-1 border border-gray-300 rounded-md text-sm text-gray-800"
+                >
+                  <option value="">Ignore</option>
+                  {Object.entries(importFields).map(([field, label]) => (
+                    <option key={field} value={field}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {unmapped.length > 0 && (
+            <p className="text-xs text-red-600 mb-4">Map a column to {unmapped.join(', ')} to import records.</p>
+          )}
+
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            Preview
+            <span className="ml-2 font-normal text-gray-500">
+              {result.records.length} of {table.rows.length} rows can be imported
+            </span>
+          </h3>
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  {previewFields.map(({ key, label }) => (
+                    <th key={key} className="p-2 font-medium">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    {previewFields.map(({ key }) => (
+                      <td key={key} className="p-2 truncate max-w-xs">{formatFieldValue(getFieldValue(record, key)) || '—'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4 text-sm text-red-700">
+              <p className="font-medium mb-1">{result.errors.length} rows will be skipped:</p>
+              <ul className="list-disc list-inside max-h-40 overflow-y-auto">
+                {result.errors.slice(0, SHOWN_ERRORS).map(({ row, errors }) => (
+                  <li key={row}>Row {row}: {errors.join('; ')}</li>
+                ))}
+              </ul>
+              {result.errors.length > SHOWN_ERRORS && (
+                <p className="mt-1">…and {result.errors.length - SHOWN_ERRORS} more</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+              {Object.entries(importModes).map(([value, label]) => (
+                <label key={value} className="flex items-center">
+                  <input
+                    type="radio"
+                    name="importMode"
+                    value={value}
+                    checked={mode === value}
+                    onChange={() => setMode(value as ImportMode)}
+                    disabled={!hasJob}
+                    className="mr-1"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={!canImport}
+              className={`md:ml-auto bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md flex items-center ${!canImport ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Upload size={16} className="mr-2" />
+              {isImporting ? 'Importing...' : `Import ${result.records.length} records`}
+            </button>
+          </div>
+          {!editable && <p className="text-xs text-gray-500 mt-2">Pause the job to import records into it.</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, FolderOpen, ListChecks, Trash2 } from 'lucide-react';
+import { JobStatus, JobSummary, isResumable } from '../api/jobs';
+
+interface JobListProps {
+  jobs: JobSummary[];
+  activeJobId?: string;
+  onOpen: (job: JobSummary) => void;
+  onDelete: (job: JobSummary) => void;
+  onArchive: (job: JobSummary, archived: boolean) => void;
+}
+
+const statusStyles: Record<JobStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-700'
+};
+
+// Saved jobs on the scraping server; the app keeps the list current from job events
+function JobList({ jobs, activeJobId, onOpen, onDelete, onArchive }: JobListProps) {
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visibleJobs = jobs.filter(job => showArchived || !job.archivedAt);
+  const archivedCount = jobs.filter(job => job.archivedAt).length;
+
+  const handleDelete = (job: JobSummary) => {
+    if (!window.confirm(`Delete "${job.name}" and its ${job.recordCount} records? This cannot be undone.`)) return;
+    onDelete(job);
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <ListChecks size={20} className="mr-2 text-blue-500" />
+          <h2 className="text-xl font-semibold text-gray-800">Jobs</h2>
+        </div>
+        {archivedCount > 0 && (
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="mr-2"
+            />
+            Show archived ({archivedCount})
+          </label>
+        )}
+      </div>
+
+      {visibleJobs.length > 0 ? (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {visibleJobs.map(job => {
+            const isActive = job.id === activeJobId;
+            const isRunning = job.status === 'running';
+            return (
+              <li
+                key={job.id}
+                className={`p-2 rounded-md text-sm ${isActive ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'} ${job.archivedAt ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800 truncate" title={job.name}>{job.name}</span>
+                  <span className={`px-2 py-0.5 rounded-md text-xs ${statusStyles[job.status]}`}>{job.status}</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {job.recordCount} records · next page {job.cursor.pageNumber}
+                  {job.failedPages.length > 0 && ` · ${job.failedPages.length} failed pages`}
+                  {' · '}{new Date(job.updatedAt).toLocaleString()}
+                </div>
+                <div className="flex justify-end gap-3 mt-1">
+                  {!isActive && (
+                    <button
+                      onClick={() => onOpen(job)}
+                      className="text-blue-600 hover:text-blue-800 flex items-center text-xs"
+                    >
+                      <FolderOpen size={12} className="mr-1" />
+                      {isResumable(job) && !isRunning ? 'Open to resume' : 'Open'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onArchive(job, !job.archivedAt)}
+                    disabled={isRunning}
+                    className={`text-gray-600 hover:text-gray-800 flex items-center text-xs ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    {job.archivedAt ? <ArchiveRestore size={12} className="mr-1" /> : <Archive size={12} className="mr-1" />}
+                    {job.archivedAt ? 'Unarchive' : 'Archive'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(job)}
+                    disabled={isRunning}
+                    className={`text-red-600 hover:text-red-800 flex items-center text-xs ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <Trash2 size={12} className="mr-1" />
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-center py-4 text-gray-500 text-sm">No saved jobs yet</p>
+      )}
+    </div>
+  );
+}
+
+export default JobList;
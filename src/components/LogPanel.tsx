@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { LogCounts, LogEntry, LogLevel, isAtLeast, logLevels, toNdjson } from '../api/log';
+import { downloadFile } from '../utils/download';
+
+interface LogPanelProps {
+  entries: LogEntry[];
+  // Totals since the job started, including entries no longer kept
+  counts: LogCounts;
+  // Names the downloaded file
+  jobId?: string;
+}
+
+const levelColors: Record<LogLevel, string> = {
+  info: 'text-gray-200',
+  warn: 'text-yellow-300',
+  error: 'text-red-400'
+};
+
+// The activity log, filterable by level and page, with a download of every kept entry
+function LogPanel({ entries, counts, jobId }: LogPanelProps) {
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  // Page number as text, or '' for every page
+  const [page, setPage] = useState('');
+
+  const pages = useMemo(
+    () => [...new Set(entries.flatMap(entry => (entry.pageNumber !== undefined ? [entry.pageNumber] : [])))].sort((a, b) => a - b),
+    [entries]
+  );
+  const shown = entries.filter(entry =>
+    isAtLeast(entry, minLevel) && (page === '' || entry.pageNumber === Number(page))
+  );
+
+  const download = () => {
+    const name = `log_${jobId ?? 'session'}_${new Date().toISOString().split('T')[0]}.ndjson`;
+    downloadFile(toNdjson(entries), name, 'application/x-ndjson');
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold text-gray-800">Log</h2>
+          <span className={`text-xs font-medium px-2 py-1 rounded-md ${counts.warn > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-500'}`}>
+            {counts.warn} warnings
+          </span>
+          <span className={`text-xs font-medium px-2 py-1 rounded-md ${counts.error > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-500'}`}>
+            {counts.error} errors
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={minLevel}
+            onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+            title="Lowest level shown"
+            className="p-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="info">All levels</option>
+            <option value="warn">Warnings and errors</option>
+            <option value="error">Errors only</option>
+          </select>
+          <select
+            value={page}
+            onChange={(e) => setPage(e.target.value)}
+            className="p-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="">All pages</option>
+            {pages.map(pageNumber => (
+              <option key={pageNumber} value={pageNumber}>Page {pageNumber}</option>
+            ))}
+          </select>
+          <button
+            onClick={download}
+            disabled={entries.length === 0}
+            title="Download as NDJSON"
+            className="p-1 text-gray-500 hover:text-gray-800"
+          >
+            <Download size={18} />
+          </button>
+        </div>
+      </div>
+      <div className="bg-gray-900 text-gray-200 p-4 rounded-md h-64 overflow-y-auto font-mono text-sm">
+        {shown.length > 0 ? (
+          shown.map((entry, index) => (
+            <div key={index} className={`mb-1 ${levelColors[entry.level]}`}>
+              <span className="text-gray-500">[{new Date(entry.time).toLocaleTimeString()}]</span>{' '}
+              {entry.level !== 'info' && <span className="font-bold">{logLevels[entry.level].toUpperCase()} </span>}
+              {entry.message}
+              {entry.url && <span className="text-gray-400"> {entry.url}</span>}
+              {entry.error && (
+                <div className="ml-4 text-gray-400">
+                  {entry.error.message}
+                  {entry.error.status !== undefined && ` (HTTP ${entry.error.status})`}
+                  {entry.error.code && ` [${entry.error.code}]`}
+                  {entry.error.details?.map(detail => <div key={detail}>- {detail}</div>)}
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <div className="text-gray-500">
+            {entries.length > 0 ? 'No entries match the filters.' : 'No log messages yet. Start the scraper to see activity.'}
+          </div>
+        )}
+      </div>
+      {counts.info + counts.warn + counts.error > entries.length && (
+        <p className="text-xs text-gray-500 mt-2">Only the most recent {entries.length} entries are kept; the counts cover the whole job.</p>
+      )}
+    </div>
+  );
+}
+
+export default LogPanel;
@@ -0,0 +1,54 @@
+import { QualityFlag, QualityReport as Report, QualitySeverity, qualityFlags } from '../api/quality';
+
+interface QualityReportProps {
+  report: Report;
+}
+
+const severityColors: Record<QualitySeverity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-gray-100 text-gray-700'
+};
+
+const severityOrder: QualitySeverity[] = ['error', 'warning', 'info'];
+
+// How many records are clean, and how many carry each quality flag
+function QualityReport({ report }: QualityReportProps) {
+  const flags = (Object.keys(qualityFlags) as QualityFlag[])
+    .filter(flag => report.flags[flag] > 0)
+    .sort((a, b) => severityOrder.indexOf(qualityFlags[a].severity) - severityOrder.indexOf(qualityFlags[b].severity));
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Data Quality</h3>
+      <div className="grid grid-cols-3 gap-2 text-center text-sm mb-3">
+        <div className="bg-green-50 text-green-800 rounded-md p-2">
+          <div className="font-bold">{report.clean}</div>
+          clean
+        </div>
+        <div className="bg-yellow-50 text-yellow-800 rounded-md p-2">
+          <div className="font-bold">{report.withWarnings}</div>
+          with warnings
+        </div>
+        <div className="bg-red-50 text-red-700 rounded-md p-2">
+          <div className="font-bold">{report.withErrors}</div>
+          with errors
+        </div>
+      </div>
+      {flags.length > 0 && (
+        <div className="space-y-1">
+          {flags.map(flag => (
+            <div key={flag} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">{qualityFlags[flag].label}</span>
+              <span className={`px-2 py-0.5 rounded-md font-medium ${severityColors[qualityFlags[flag].severity]}`}>
+                {report.flags[flag]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default QualityReport;
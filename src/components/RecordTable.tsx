@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Download, Search, Table, Trash2 } from 'lucide-react';
+import { Charity } from '../api/scraper';
+import { PresenceFilter, RecordChanges, RecordFilter, defaultRecordFilter, filterRecords } from '../api/records';
+import { SchemaField, formatFieldValue, getFieldValue } from '../api/schema';
+import { QualityFilter, assessQuality, hasSeverity, qualityFilters, qualityFlags } from '../api/quality';
+
+interface RecordTableProps {
+  records: Charity[];
+  // The job's fields, which become the table's columns
+  fields: SchemaField[];
+  // Records can only be changed while the job is not scraping
+  editable: boolean;
+  onEdit: (index: number, changes: RecordChanges) => Promise<void>;
+  onDelete: (indexes: number[]) => Promise<void>;
+  onExportSelected: (records: Charity[]) => void;
+  // Positions of the records in a state, looked up without going through every record; null when
+  // they cannot be looked up, and the table checks each record instead
+  findStatePositions?: (state: string) => Promise<number[] | null>;
+}
+
+// Positions looked up for a state filter
+interface StateLookup {
+  state: string;
+  positions: number[];
+}
+
+// The cell being edited and its unsaved value
+interface EditingCell {
+  index: number;
+  field: string;
+  value: string;
+}
+
+const PAGE_SIZES = [25, 50, 100, 250];
+
+const presenceLabels: Record<PresenceFilter, string> = {
+  any: 'Any',
+  yes: 'Yes',
+  no: 'No'
+};
+
+// Marks a record with error or warning flags; every flag, info ones included, is listed on hover
+function QualityCell({ record, fields }: { record: Charity; fields: SchemaField[] }) {
+  const flags = assessQuality(record, fields);
+  const color = hasSeverity(flags, 'error') ? 'text-red-500' : hasSeverity(flags, 'warning') ? 'text-yellow-500' : '';
+  return (
+    <td className="p-2 align-top" title={flags.map(flag => qualityFlags[flag].label).join('\n')}>
+      {color && <AlertTriangle size={14} className={color} />}
+    </td>
+  );
+}
+
+// Results table for one job's records; give it a key per job so selections never carry over
+function RecordTable({ records, fields, editable, onEdit, onDelete, onExportSelected, findStatePositions }: RecordTableProps) {
+  const [filter, setFilter] = useState<RecordFilter>({ ...defaultRecordFilter, sortBy: fields[0]?.key ?? '' });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const [stateLookup, setStateLookup] = useState<StateLookup | null>(null);
+
+  // Look the filtered state's records up again whenever the state or the stored records change
+  useEffect(() => {
+    const state = filter.state;
+    if (!state || !findStatePositions) return;
+    let current = true;
+    findStatePositions(state).then(positions => current && setStateLookup(positions && { state, positions }));
+    return () => {
+      current = false;
+    };
+  }, [filter.state, findStatePositions]);
+
+  const statePositions = stateLookup && stateLookup.state === filter.state ? stateLookup.positions : undefined;
+  const rows = useMemo(
+    () => filterRecords(records, filter, fields, statePositions),
+    [records, filter, fields, statePositions]
+  );
+  // The state and presence filters only apply when the schema has those fields
+  const keys = new Set(fields.map(field => field.key));
+  const states = useMemo(
+    () => [...new Set(records.map(record => record.state || 'Unknown'))].sort(),
+    [records]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const allFilteredSelected = rows.length > 0 && rows.every(row => selected.has(row.index));
+
+  const updateFilter = (changes: Partial<RecordFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const toggleSort = (field: string) => {
+    updateFilter(filter.sortBy === field ? { descending: !filter.descending } : { sortBy: field, descending: false });
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Select or clear every row that matches the filters, not just this page
+  const toggleAll = () => {
+    setSelected(allFilteredSelected ? new Set() : new Set(rows.map(row => row.index)));
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const { index, field, value } = editing;
+    setEditing(null);
+    if (formatFieldValue(getFieldValue(records[index], field)) !== value) {
+      await onEdit(index, { [field]: value });
+    }
+  };
+
+  const handleDeleteSelected = async () => {
+    if (!window.confirm(`Delete ${selected.size} selected records? This cannot be undone.`)) return;
+    await onDelete([...selected]);
+    // Positions shift after a delete, so the old selection no longer points at the same records
+    setSelected(new Set());
+  };
+
+  const handleDeleteRow = async (index: number) => {
+    if (!window.confirm(`Delete "${records[index].name}"?`)) return;
+    await onDelete([index]);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div className="flex items-center">
+          <Table size={20} className="mr-2 text-blue-500" />
+          <h2 className="text-xl font-semibold text-gray-800">Records</h2>
+          <span className="ml-3 text-sm text-gray-500">
+            {rows.length === records.length ? `${records.length} records` : `${rows.length} of ${records.length} records`}
+          </span>
+        </div>
+
+        {selected.size > 0 && (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-gray-600">{selected.size} selected</span>
+            <button
+              onClick={() => onExportSelected([...selected].sort((a, b) => a - b).map(index => records[index]))}
+              className="text-green-700 hover:text-green-900 flex items-center"
+            >
+              <Download size={14} className="mr-1" />
+              Export selected
+            </button>
+            <button
+              onClick={handleDeleteSelected}
+              disabled={!editable}
+              className={`text-red-600 hover:text-red-800 flex items-center ${!editable ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Trash2 size={14} className="mr-1" />
+              Delete selected
+            </button>
+            <button onClick={() => setSelected(new Set())} className="text-gray-500 hover:text-gray-700">
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+        <div className="relative md:col-span-2">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search size={16} className="text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="Search all columns"
+            className="block w-full pl-9 p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        {keys.has('state') && (
+          <select
+            value={filter.state}
+            onChange={(e) => updateFilter({ state: e.target.value })}
+            className="p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">All states</option>
+            {states.map(state => (
+              <option key={state} value={state}>{state}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex gap-2">
+          {keys.has('email') && (
+            <label className="flex-1 text-xs text-gray-500">
+              Has email
+              <select
+                value={filter.hasEmail}
+                onChange={(e) => updateFilter({ hasEmail: e.target.value as PresenceFilter })}
+                className="w-full p-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              >
+                {Object.entries(presenceLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {keys.has('website') && (
+            <label className="flex-1 text-xs text-gray-500">
+              Has website
+              <select
+                value={filter.hasWebsite}
+                onChange={(e) => updateFilter({ hasWebsite: e.target.value as PresenceFilter })}
+                className="w-full p-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              >
+                {Object.entries(presenceLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        <select
+          value={filter.quality}
+          onChange={(e) => updateFilter({ quality: e.target.value as QualityFilter })}
+          title="Filter by quality flags"
+          className="p-2 border border-gray-300 rounded-md"
+        >
+          {Object.entries(qualityFilters).map(([value, label]) => (
+            <option key={value} value={value}>{value === 'all' ? 'Any quality' : label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!editable && records.length > 0 && (
+        <p className="text-xs text-gray-500 mb-2">Pause the job to edit or delete records.</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="p-2 w-8">
+                <input type="checkbox" checked={allFilteredSelected} onChange={toggleAll} title="Select all matching records" />
+              </th>
+              {fields.map(({ key, label }) => (
+                <th key={key} className="p-2 font-medium">
+                  <button onClick={() => toggleSort(key)} className="flex items-center hover:text-gray-900">
+                    {label}
+                    {filter.sortBy === key && (filter.descending ? <ArrowDown size={12} className="ml-1" /> : <ArrowUp size={12} className="ml-1" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="p-2 w-8"></th>
+              <th className="p-2 w-8"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(({ index, record }) => (
+              <tr key={index} className={`border-b border-gray-100 ${selected.has(index) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                <td className="p-2">
+                  <input type="checkbox" checked={selected.has(index)} onChange={() => toggleRow(index)} />
+                </td>
+                {fields.map(({ key }) => {
+                  const value = formatFieldValue(getFieldValue(record, key));
+                  return (
+                    <td
+                      key={key}
+                      className={`p-2 align-top ${editable ? 'cursor-text' : ''}`}
+                      onClick={() => editable && !editing && setEditing({ index, field: key, value })}
+                    >
+                      {editing?.index === index && editing.field === key ? (
+                        <input
+                          type="text"
+                          autoFocus
+                          value={editing.value}
+                          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                          onBlur={saveEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className="w-full p-1 border border-blue-300 rounded-md"
+                        />
+                      ) : (
+                        <span className={`block truncate max-w-xs ${value ? 'text-gray-800' : 'text-gray-400'}`} title={value}>
+                          {value || '—'}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+                <QualityCell record={record} fields={fields} />
+                <td className="p-2">
+                  <button
+                    onClick={() => handleDeleteRow(index)}
+                    disabled={!editable}
+                    title="Delete record"
+                    className={`text-gray-400 hover:text-red-600 ${!editable ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {pageRows.length === 0 && (
+          <p className="text-center py-8 text-gray-500">
+            {records.length === 0 ? 'No records collected yet' : 'No records match the filters'}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <label className="flex items-center">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value));
+              setPage(0);
+            }}
+            className="ml-2 p-1 border border-gray-300 rounded-md"
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className={`p-1 rounded-md hover:bg-gray-100 ${currentPage === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className={`p-1 rounded-md hover:bg-gray-100 ${currentPage >= pageCount - 1 ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RecordTable;
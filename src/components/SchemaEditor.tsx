@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, Wand2 } from 'lucide-react';
+import { ScraperConfig } from '../api/scraper';
+import {
+  ExtractionKind,
+  FieldType,
+  SchemaField,
+  extractionKinds,
+  fieldTypes,
+  fieldsFromSelectors
+} from '../api/schema';
+import TransformEditor from './TransformEditor';
+
+interface SchemaEditorProps {
+  config: ScraperConfig;
+  isRunning: boolean;
+  onConfigChange: (config: ScraperConfig) => void;
+}
+
+// Declare the fields a profile scrapes, or keep the default charity fields
+function SchemaEditor({ config, isRunning, onConfigChange }: SchemaEditorProps) {
+  const fields = config.fields ?? [];
+  // Field whose transform chain is shown
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const updateFields = (updated: SchemaField[]) => onConfigChange({ ...config, fields: updated });
+
+  const updateField = (index: number, changes: Partial<SchemaField>) => {
+    updateFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const reordered = [...fields];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    updateFields(reordered);
+    setOpenIndex(null);
+  };
+
+  const removeField = (index: number) => {
+    updateFields(fields.filter((_field, i) => i !== index));
+    setOpenIndex(null);
+  };
+
+  // Add a text field under the first unused fieldN key
+  const addField = () => {
+    let n = fields.length + 1;
+    while (fields.some(field => field.key === `field${n}`)) n++;
+    updateFields([...fields, { key: `field${n}`, label: `Field ${n}`, selector: '', kind: 'text', type: 'string', required: false }]);
+  };
+
+  const resetFields = () => {
+    if (!window.confirm('Remove the custom fields and scrape the default charity fields?')) return;
+    onConfigChange({ ...config, fields: undefined });
+  };
+
+  if (fields.length === 0) {
+    return (
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Record Fields
+        </label>
+        <p className="text-sm text-gray-600 mb-2">
+          This profile scrapes the default charity fields: name, address, website and EIN from the selectors below, with email
+          added by enrichment and state parsed from the address.
+        </p>
+        <button
+          onClick={() => updateFields(fieldsFromSelectors(config))}
+          disabled={isRunning}
+          className={`bg-white border border-blue-500 text-blue-600 hover:bg-blue-50 px-3 py-1 rounded-md text-sm ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          Customize Fields
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700">
+          Record Fields
+        </label>
+        <button
+          onClick={resetFields}
+          disabled={isRunning}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          Use the default charity fields
+        </button>
+      </div>
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+        {fields.map((field, index) => (
+          <div key={index} className="p-2">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+              <input
+                type="text"
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value.trim() })}
+                disabled={isRunning}
+                placeholder="Key"
+                title="Property name in exports and the API"
+                className="p-1 border border-gray-300 rounded-md font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                disabled={isRunning}
+                placeholder="Label"
+                className="p-1 border border-gray-300 rounded-md text-sm"
+              />
+              <input
+                type="text"
+                value={field.selector ?? ''}
+                onChange={(e) => updateField(index, { selector: e.target.value })}
+                disabled={isRunning}
+                placeholder="Selector within each item"
+                className="p-1 border border-gray-300 rounded-md font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={field.detailSelector ?? ''}
+                onChange={(e) => updateField(index, { detailSelector: e.target.value })}
+                disabled={isRunning}
+                placeholder="Detail page selector"
+                className="p-1 border border-gray-300 rounded-md font-mono text-sm"
+              />
+              <div className="flex gap-1">
+                <select
+                  value={field.kind}
+                  onChange={(e) => updateField(index, { kind: e.target.value as ExtractionKind })}
+                  disabled={isRunning}
+                  title="What is read from the matched elements"
+                  className="flex-1 p-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {Object.entries(extractionKinds).map(([kind, label]) => (
+                    <option key={kind} value={kind}>{label}</option>
+                  ))}
+                </select>
+                {field.kind === 'attribute' && (
+                  <input
+                    type="text"
+                    value={field.attribute ?? ''}
+                    onChange={(e) => updateField(index, { attribute: e.target.value.trim() })}
+                    disabled={isRunning}
+                    placeholder="href"
+                    title="Attribute to read"
+                    className="w-16 p-1 border border-gray-300 rounded-md font-mono text-sm"
+                  />
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(index, { type: e.target.value as FieldType })}
+                  disabled={isRunning}
+                  className="flex-1 p-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {Object.entries(fieldTypes).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setOpenIndex(openIndex === index ? null : index)}
+                  title="Transforms"
+                  className={`p-1 flex items-center text-xs ${field.transforms?.length ? 'text-blue-600' : 'text-gray-500'} hover:text-gray-800`}
+                >
+                  <Wand2 size={14} />
+                  {field.transforms?.length ? field.transforms.length : ''}
+                </button>
+                <label className="flex items-center text-xs text-gray-600" title="Items without a value are dropped">
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateField(index, { required: e.target.checked })}
+                    disabled={isRunning}
+                    className="mr-1"
+                  />
+                  Req.
+                </label>
+                <button
+                  onClick={() => moveField(index, -1)}
+                  disabled={isRunning || index === 0}
+                  title="Move up"
+                  className={`p-1 text-gray-500 hover:text-gray-800 ${index === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={() => moveField(index, 1)}
+                  disabled={isRunning || index === fields.length - 1}
+                  title="Move down"
+                  className={`p-1 text-gray-500 hover:text-gray-800 ${index === fields.length - 1 ? 'opacity-30 cursor-not-allowed' : ''}`}
+                >
+                  <ArrowDown size={14} />
+                </button>
+                <button
+                  onClick={() => removeField(index)}
+                  disabled={isRunning || fields.length === 1}
+                  title="Remove field"
+                  className={`p-1 text-red-500 hover:text-red-700 ${fields.length === 1 ? 'opacity-30 cursor-not-allowed' : ''}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            {openIndex === index && (
+              <TransformEditor
+                field={field}
+                pageUrl={config.sourceUrl}
+                isRunning={isRunning}
+                onChange={(transforms) => updateField(index, { transforms })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={addField}
+        disabled={isRunning}
+        className="mt-2 text-sm text-blue-600 hover:text-blue-800 flex items-center"
+      >
+        <Plus size={14} className="mr-1" />
+        Add Field
+      </button>
+      <p className="text-xs text-gray-500 mt-2">
+        Selectors are matched within each item on list pages, and on the item's detail page when a detail link selector is set.
+        The keys name, address, website, email, state and EIN keep their usual meaning for deduplication, enrichment and the state summary.
+        The first field sorts the table and exports. The wand opens a field's transforms, which clean up the text read from the page
+        (regex capture, whitespace, case, absolute URLs, numbers and currency, phone numbers) and can be tried on sample text.
+      </p>
+    </div>
+  );
+}
+
+export default SchemaEditor;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, Search } from 'lucide-react';
+import { FieldCheck, ScraperConfig, SelectorTestResult, testSelectors } from '../api/scraper';
+import { buildPageUrl } from '../api/pagination';
+import { validateScraperConfig } from '../api/profiles';
+import { formatFieldValue } from '../api/schema';
+import { ApiError, testSelectorsOnServer } from '../api/client';
+
+interface SelectorTesterProps {
+  // The profile as edited, saved or not
+  config: ScraperConfig;
+}
+
+type TestSource = 'url' | 'html';
+
+// One tested value, red when the selector matched nothing and amber when it matched several elements
+function CheckCell({ check }: { check?: FieldCheck }) {
+  if (!check) return <td className="p-2 text-gray-300">—</td>;
+  const value = formatFieldValue(check.value);
+  const color = check.matches === 0 || !value
+    ? 'bg-red-50 text-red-700'
+    : check.matches > 1 && !Array.isArray(check.value) ? 'bg-yellow-50 text-yellow-800' : 'text-gray-800';
+  const title = check.matches === 0
+    ? `${check.selector} matched nothing`
+    : `${check.selector} matched ${check.matches} element(s)`;
+  return (
+    <td className={`p-2 truncate max-w-xs ${color}`} title={title}>
+      {check.matches === 0 ? 'not found' : value || 'empty'}
+    </td>
+  );
+}
+
+// Try the profile's selectors on a live page or pasted HTML before saving or running it
+function SelectorTester({ config }: SelectorTesterProps) {
+  const [source, setSource] = useState<TestSource>('url');
+  const [url, setUrl] = useState('');
+  const [html, setHtml] = useState('');
+  const [result, setResult] = useState<SelectorTestResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const pageUrl = url.trim() || buildPageUrl(config, 1);
+  const columns = result?.items[0]?.fields.map(({ key, label, selector }) => ({ key, label, selector })) ?? [];
+
+  const runTest = async () => {
+    setErrors([]);
+    setResult(null);
+    // The URL only matters for resolving links when testing pasted HTML
+    const problems = validateScraperConfig({ ...config, source: 'live', sourceUrl: pageUrl });
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      setResult(source === 'html' ? testSelectors(html, config, pageUrl) : await testSelectorsOnServer(config, pageUrl));
+    } catch (error) {
+      setErrors([
+        error instanceof Error ? error.message : 'The test failed',
+        ...(error instanceof ApiError ? error.details : [])
+      ]);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Selector Tester
+      </label>
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700 mb-2">
+        <label className="flex items-center">
+          <input type="radio" checked={source === 'url'} onChange={() => setSource('url')} className="mr-1" />
+          Load a page
+        </label>
+        <label className="flex items-center">
+          <input type="radio" checked={source === 'html'} onChange={() => setSource('html')} className="mr-1" />
+          Paste HTML
+        </label>
+      </div>
+      <div className="flex flex-col md:flex-row gap-2 mb-2">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder={buildPageUrl(config, 1)}
+          title={source === 'html' ? 'Address the HTML came from, for resolving relative links' : 'Page to load; the first list page by default'}
+          className="flex-1 p-2 border border-gray-300 rounded-md font-mono text-sm"
+        />
+        <button
+          onClick={runTest}
+          disabled={isTesting || (source === 'html' && !html.trim())}
+          className={`bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-md flex items-center justify-center ${isTesting ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <Search size={16} className="mr-2" />
+          {isTesting ? 'Testing...' : 'Test Selectors'}
+        </button>
+      </div>
+      {source === 'html' && (
+        <textarea
+          value={html}
+          onChange={(e) => setHtml(e.target.value)}
+          placeholder="Paste the page source (View Source or Save Page As in the browser)"
+          rows={5}
+          className="w-full p-2 border border-gray-300 rounded-md font-mono text-xs mb-2"
+        />
+      )}
+      <p className="text-xs text-gray-500 mb-2">
+        Pages are loaded by the scraping server with the profile's fetch and browser settings, so the result matches a run.
+        Detail selectors are tried on the first item's detail page. Nothing is saved.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600 mb-2">
+          {errors.map(error => (
+            <div key={error} className="flex items-center">
+              <AlertCircle size={14} className="mr-1 flex-shrink-0" />
+              {error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <div className="border border-gray-200 rounded-md p-3">
+          <p className={`text-sm font-medium mb-2 ${result.itemCount === 0 ? 'text-red-600' : 'text-gray-700'}`}>
+            The items selector matched {result.itemCount} element(s)
+            {result.itemCount > result.items.length && `; the first ${result.items.length} are shown`}
+          </p>
+          {result.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-800 bg-yellow-50 rounded-md p-2 mb-2 space-y-1">
+              {result.warnings.map(warning => (
+                <li key={warning} className="flex items-start">
+                  <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.nextPageUrl && (
+            <p className="text-xs text-gray-500 mb-2">Next page: <span className="font-mono">{result.nextPageUrl}</span></p>
+          )}
+
+          {result.items.length > 0 && (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="p-2 font-medium">#</th>
+                    {columns.map(({ key, label, selector }) => (
+                      <th key={key} className="p-2 font-medium" title={selector}>{label}</th>
+                    ))}
+                    {config.selectors.detailLink && <th className="p-2 font-medium">Detail Link</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.items.map((item, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="p-2 text-gray-500">{index + 1}</td>
+                      {columns.map(({ key }) => (
+                        <CheckCell key={key} check={item.fields.find(check => check.key === key)} />
+                      ))}
+                      {config.selectors.detailLink && (
+                        <td className={`p-2 truncate max-w-xs ${item.detailUrl ? 'text-gray-800' : 'bg-red-50 text-red-700'}`}>
+                          {item.detailUrl ?? 'not found'}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {result.detail && (
+            <div className="mt-3">
+              <p className="text-sm font-medium text-gray-700 mb-1">
+                Detail page <span className="font-mono font-normal text-xs text-gray-500">{result.detail.url}</span>
+              </p>
+              <table className="min-w-full text-sm">
+                <tbody>
+                  {result.detail.fields.map(check => (
+                    <tr key={check.key} className="border-b border-gray-100">
+                      <td className="p-2 text-gray-600 w-40" title={check.selector}>{check.label}</td>
+                      <CheckCell check={check} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SelectorTester;
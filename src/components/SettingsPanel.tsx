@@ -0,0 +1,637 @@
+import { useState, useRef } from 'react';
+import { AlertCircle, Globe, Save, Copy, Trash2, Upload, Download } from 'lucide-react';
+import { ScraperConfig, FieldSelectors, PageSourceId, pageSources } from '../api/scraper';
+import {
+  ScraperProfile,
+  listProfiles,
+  getActiveProfile,
+  setActiveProfile,
+  saveProfile,
+  duplicateProfile,
+  deleteProfile,
+  exportProfiles,
+  importProfiles,
+  validateScraperConfig
+} from '../api/profiles';
+import { getSchema } from '../api/schema';
+import { PaginationConfig, PaginationMode, getPagination, paginationModes } from '../api/pagination';
+import { FetchConfig, getFetchSettings } from '../api/fetcher';
+import { RenderConfig, RenderMode, getRenderSettings, renderModes } from '../api/renderer';
+import EnrichmentSettings from './EnrichmentSettings';
+import SheetsSettings from './SheetsSettings';
+import ExportSettings from './ExportSettings';
+import SchemaEditor from './SchemaEditor';
+import SelectorTester from './SelectorTester';
+import { LogEvent } from '../api/log';
+import { downloadFile } from '../utils/download';
+
+interface SettingsPanelProps {
+  config: ScraperConfig;
+  isRunning: boolean;
+  onConfigChange: (config: ScraperConfig) => void;
+  onLog: (message: string, event?: Partial<LogEvent>) => void;
+}
+
+type SelectorKey = keyof ScraperConfig['selectors'];
+
+const selectorFields: { key: SelectorKey; label: string; required?: boolean }[] = [
+  { key: 'items', label: 'Items Selector', required: true },
+  { key: 'name', label: 'Name Selector', required: true },
+  { key: 'address', label: 'Address Selector' },
+  { key: 'website', label: 'Website Selector' },
+  { key: 'ein', label: 'EIN Selector' },
+  { key: 'nextPage', label: 'Next Page Selector' },
+  { key: 'detailLink', label: 'Detail Link Selector' }
+];
+
+// Selectors that declared record fields replace
+const fieldSelectorKeys: SelectorKey[] = ['name', 'address', 'website', 'ein'];
+
+const fetchNumberFields: { key: 'timeoutMs' | 'minIntervalMs' | 'maxRetries' | 'backoffBaseMs' | 'maxBackoffMs'; label: string; min: number }[] = [
+  { key: 'minIntervalMs', label: 'Delay Between Requests To A Host (ms)', min: 0 },
+  { key: 'timeoutMs', label: 'Request Timeout (ms)', min: 1000 },
+  { key: 'maxRetries', label: 'Retries On 429, 5xx Or Network Errors', min: 0 },
+  { key: 'backoffBaseMs', label: 'Initial Backoff (ms, doubles each retry)', min: 0 },
+  { key: 'maxBackoffMs', label: 'Backoff Cap (ms)', min: 0 }
+];
+
+const renderNumberFields: { key: 'waitTimeoutMs' | 'scrolls' | 'maxLoadMoreClicks' | 'stepDelayMs'; label: string }[] = [
+  { key: 'waitTimeoutMs', label: 'Wait For Items (ms)' },
+  { key: 'scrolls', label: 'Scroll To Bottom (times)' },
+  { key: 'maxLoadMoreClicks', label: 'Click Load More (max times)' },
+  { key: 'stepDelayMs', label: 'Pause After Each Scroll Or Click (ms)' }
+];
+
+const detailSelectorFields: { key: keyof FieldSelectors; label: string }[] = [
+  { key: 'name', label: 'Name Selector' },
+  { key: 'address', label: 'Address Selector' },
+  { key: 'website', label: 'Website Selector' },
+  { key: 'ein', label: 'EIN Selector' }
+];
+
+function SettingsPanel({ config, isRunning, onConfigChange, onLog }: SettingsPanelProps) {
+  const [profiles, setProfiles] = useState<ScraperProfile[]>(listProfiles());
+  const activeProfile = getActiveProfile();
+  const [profileName, setProfileName] = useState(activeProfile.name);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Declared fields carry their own selectors, replacing the fixed per-field ones
+  const hasCustomFields = Boolean(config.fields?.length);
+  const visibleSelectorFields = hasCustomFields
+    ? selectorFields.filter(({ key }) => !fieldSelectorKeys.includes(key))
+    : selectorFields;
+
+  const isDirty =
+    profileName !== activeProfile.name ||
+    JSON.stringify(config) !== JSON.stringify(activeProfile.config);
+
+  // Show a profile in the panel and make its configuration the working copy
+  const loadProfile = (profile: ScraperProfile) => {
+    setProfiles(listProfiles());
+    setProfileName(profile.name);
+    setErrors([]);
+    onConfigChange(profile.config);
+  };
+
+  const switchProfile = (id: string) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this profile?')) {
+      return;
+    }
+    const profile = setActiveProfile(id);
+    loadProfile(profile);
+    onLog(`Switched to profile "${profile.name}"`);
+  };
+
+  const updateSelector = (key: SelectorKey, value: string) => {
+    onConfigChange({ ...config, selectors: { ...config.selectors, [key]: value } });
+  };
+
+  const updatePagination = (changes: Partial<PaginationConfig>) => {
+    onConfigChange({ ...config, pagination: { ...getPagination(config), ...changes } });
+  };
+
+  // Parse an optional numeric input, treating an empty box as "not set"
+  const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const pagination = getPagination(config);
+
+  const updateFetch = (changes: FetchConfig) => {
+    onConfigChange({ ...config, fetch: { ...getFetchSettings(config), ...changes } });
+  };
+
+  const fetchSettings = getFetchSettings(config);
+
+  const updateRender = (changes: Partial<RenderConfig>) => {
+    onConfigChange({ ...config, render: { ...getRenderSettings(config), ...changes } });
+  };
+
+  const render = getRenderSettings(config);
+
+  const updateDetailSelector = (key: keyof FieldSelectors, value: string) => {
+    onConfigChange({ ...config, detailSelectors: { ...config.detailSelectors, [key]: value } });
+  };
+
+  const handleSave = () => {
+    const problems = validateScraperConfig(config);
+    if (!profileName.trim()) problems.push('Profile name is required');
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const profile = saveProfile({ ...activeProfile, name: profileName.trim(), config });
+    loadProfile(profile);
+    onLog(`Saved profile "${profile.name}"`);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateProfile(activeProfile.id);
+    loadProfile(setActiveProfile(copy.id));
+    onLog(`Duplicated profile as "${copy.name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete profile "${activeProfile.name}"?`)) return;
+
+    try {
+      deleteProfile(activeProfile.id);
+      onLog(`Deleted profile "${activeProfile.name}"`);
+      loadProfile(getActiveProfile());
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not delete profile']);
+    }
+  };
+
+  const handleExport = () => {
+    const slug = activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(exportProfiles([activeProfile.id]), `${slug || 'profile'}.profile.json`, 'application/json');
+    onLog(`Exported profile "${activeProfile.name}"`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importProfiles(await file.text());
+      loadProfile(setActiveProfile(imported[0].id));
+      onLog(`Imported ${imported.length} profile(s) from ${file.name}`);
+    } catch (error) {
+      setErrors([`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Advanced Settings</h2>
+
+      {config.source === 'demo' ? (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-yellow-400" />
+            </div>
+            <div className="ml-3">
+              <p className="text-sm text-yellow-700">
+                Note: The demo source is active, so this tool returns generated mock data instead of scraping the source URL.
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <Globe className="h-5 w-5 text-blue-400" />
+            </div>
+            <div className="ml-3">
+              <p className="text-sm text-blue-700">
+                Live scraping is active: pages are fetched from the source URL and parsed with the selectors below.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Profile
+        </label>
+        <div className="flex flex-col md:flex-row gap-2">
+          <select
+            id="profileSelect"
+            value={activeProfile.id}
+            onChange={(e) => switchProfile(e.target.value)}
+            disabled={isRunning}
+            className="md:w-1/3 p-2 border border-gray-300 rounded-md"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            id="profileName"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            disabled={isRunning}
+            placeholder="Profile name"
+            className="flex-grow p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button
+            onClick={handleSave}
+            disabled={isRunning || !isDirty}
+            className={`bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-md flex items-center text-sm ${(isRunning || !isDirty) ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Save size={16} className="mr-1" />
+            Save
+          </button>
+          <button
+            onClick={handleDuplicate}
+            disabled={isRunning}
+            className={`bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded-md flex items-center text-sm ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Copy size={16} className="mr-1" />
+            Duplicate
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isRunning || profiles.length <= 1}
+            className={`bg-gray-100 hover:bg-gray-200 text-red-600 px-3 py-1 rounded-md flex items-center text-sm ${(isRunning || profiles.length <= 1) ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Trash2 size={16} className="mr-1" />
+            Delete
+          </button>
+          <button
+            onClick={handleExport}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded-md flex items-center text-sm"
+          >
+            <Download size={16} className="mr-1" />
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className={`bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded-md flex items-center text-sm ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <Upload size={16} className="mr-1" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          {isDirty && (
+            <span className="text-xs text-gray-500 self-center">Unsaved changes</span>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4">
+          <ul className="text-sm text-red-700 list-disc list-inside">
+            {errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label htmlFor="pageSource" className="block text-sm font-medium text-gray-700 mb-1">
+          Page Source
+        </label>
+        <select
+          id="pageSource"
+          value={config.source}
+          onChange={(e) => onConfigChange({ ...config, source: e.target.value as PageSourceId })}
+          disabled={isRunning}
+          className="w-full md:w-1/2 p-2 border border-gray-300 rounded-md"
+        >
+          {Object.values(pageSources).map(source => (
+            <option key={source.id} value={source.id}>{source.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <SchemaEditor config={config} isRunning={isRunning} onConfigChange={onConfigChange} />
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          CSS Selectors
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {visibleSelectorFields.map(({ key, label, required }) => (
+            <div key={key}>
+              <label htmlFor={`${key}Selector`} className="block text-xs text-gray-500 mb-1">
+                {label}{required && ' *'}
+              </label>
+              <input
+                type="text"
+                id={`${key}Selector`}
+                value={config.selectors[key] ?? ''}
+                onChange={(e) => updateSelector(key, e.target.value)}
+                disabled={isRunning}
+                className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          These selectors are used to extract data from the web pages. They are checked for valid syntax before a run starts.
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Pagination
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="paginationMode" className="block text-xs text-gray-500 mb-1">
+              Mode
+            </label>
+            <select
+              id="paginationMode"
+              value={pagination.mode}
+              onChange={(e) => updatePagination({ mode: e.target.value as PaginationMode })}
+              disabled={isRunning}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              {Object.entries(paginationModes).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="maxPages" className="block text-xs text-gray-500 mb-1">
+              Max Pages (blank for no limit)
+            </label>
+            <input
+              type="number"
+              id="maxPages"
+              min={1}
+              value={pagination.maxPages ?? ''}
+              onChange={(e) => updatePagination({ maxPages: optionalNumber(e.target.value) })}
+              disabled={isRunning}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          {pagination.mode === 'page' && (
+            <div>
+              <label htmlFor="firstPage" className="block text-xs text-gray-500 mb-1">
+                First Page Number
+              </label>
+              <input
+                type="number"
+                id="firstPage"
+                min={0}
+                value={pagination.firstPage}
+                onChange={(e) => updatePagination({ firstPage: Number(e.target.value) })}
+                disabled={isRunning}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+          {pagination.mode === 'offset' && (
+            <>
+              <div>
+                <label htmlFor="offsetStart" className="block text-xs text-gray-500 mb-1">
+                  First Offset
+                </label>
+                <input
+                  type="number"
+                  id="offsetStart"
+                  min={0}
+                  value={pagination.offsetStart}
+                  onChange={(e) => updatePagination({ offsetStart: Number(e.target.value) })}
+                  disabled={isRunning}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label htmlFor="offsetStep" className="block text-xs text-gray-500 mb-1">
+                  Items Per Page (offset step and {'{limit}'})
+                </label>
+                <input
+                  type="number"
+                  id="offsetStep"
+                  min={1}
+                  value={pagination.offsetStep}
+                  onChange={(e) => updatePagination({ offsetStep: Number(e.target.value) })}
+                  disabled={isRunning}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-4 mt-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pagination.stopOnEmpty}
+              onChange={(e) => updatePagination({ stopOnEmpty: e.target.checked })}
+              disabled={isRunning}
+              className="mr-2"
+            />
+            Stop at the first empty page
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pagination.stopOnRepeat}
+              onChange={(e) => updatePagination({ stopOnRepeat: e.target.checked })}
+              disabled={isRunning}
+              className="mr-2"
+            />
+            Stop when a page repeats the previous one
+          </label>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Rendering
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="renderMode" className="block text-xs text-gray-500 mb-1">
+              Mode
+            </label>
+            <select
+              id="renderMode"
+              value={render.mode}
+              onChange={(e) => updateRender({ mode: e.target.value as RenderMode })}
+              disabled={isRunning}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              {Object.entries(renderModes).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {render.mode === 'browser' && (
+            <>
+              <div>
+                <label htmlFor="loadMoreSelector" className="block text-xs text-gray-500 mb-1">
+                  Load More Button Selector
+                </label>
+                <input
+                  type="text"
+                  id="loadMoreSelector"
+                  value={render.loadMoreSelector ?? ''}
+                  onChange={(e) => updateRender({ loadMoreSelector: e.target.value })}
+                  disabled={isRunning}
+                  className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+                />
+              </div>
+              {renderNumberFields.map(({ key, label }) => (
+                <div key={key}>
+                  <label htmlFor={key} className="block text-xs text-gray-500 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={key}
+                    min={0}
+                    value={render[key]}
+                    onChange={(e) => updateRender({ [key]: Number(e.target.value) })}
+                    disabled={isRunning}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Use the headless browser for sites that build their result lists with JavaScript. It waits for the items selector, then scrolls and clicks as set above; the same selectors are applied to the rendered page.
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Fetching
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="userAgent" className="block text-xs text-gray-500 mb-1">
+              User-Agent
+            </label>
+            <input
+              type="text"
+              id="userAgent"
+              value={fetchSettings.userAgent}
+              onChange={(e) => updateFetch({ userAgent: e.target.value })}
+              disabled={isRunning}
+              className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+          </div>
+          {fetchNumberFields.map(({ key, label, min }) => (
+            <div key={key}>
+              <label htmlFor={key} className="block text-xs text-gray-500 mb-1">
+                {label}
+              </label>
+              <input
+                type="number"
+                id={key}
+                min={min}
+                value={fetchSettings[key]}
+                onChange={(e) => updateFetch({ [key]: Number(e.target.value) })}
+                disabled={isRunning}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center text-sm text-gray-700 mt-2">
+          <input
+            type="checkbox"
+            checked={fetchSettings.respectRobots}
+            onChange={(e) => updateFetch({ respectRobots: e.target.checked })}
+            disabled={isRunning}
+            className="mr-2"
+          />
+          Obey robots.txt (disallowed pages are refused, and Crawl-delay raises the delay)
+        </label>
+        <p className="text-xs text-gray-500 mt-2">
+          A 429, 5xx or network error is retried, in the headless browser too. A Retry-After time within the backoff cap is waited out; a longer one fails the request. The User-Agent names the scraper to the sites it visits and is sent by the scraping server with every request, from the headless browser too, and matched against robots.txt.
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Detail Page Selectors
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {!hasCustomFields && detailSelectorFields.map(({ key, label }) => (
+            <div key={key}>
+              <label htmlFor={`detail-${key}Selector`} className="block text-xs text-gray-500 mb-1">
+                {label}
+              </label>
+              <input
+                type="text"
+                id={`detail-${key}Selector`}
+                value={config.detailSelectors?.[key] ?? ''}
+                onChange={(e) => updateDetailSelector(key, e.target.value)}
+                disabled={isRunning}
+                className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+              />
+            </div>
+          ))}
+          <div>
+            <label htmlFor="detailConcurrency" className="block text-xs text-gray-500 mb-1">
+              Detail Pages At Once
+            </label>
+            <input
+              type="number"
+              id="detailConcurrency"
+              min={1}
+              value={config.detailConcurrency ?? 3}
+              onChange={(e) => onConfigChange({ ...config, detailConcurrency: Number(e.target.value) })}
+              disabled={isRunning}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          When a detail link selector is set, each item's profile page is visited and any fields found there replace the values from the list page.
+        </p>
+      </div>
+
+      <SelectorTester config={config} />
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Data Quality
+        </label>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={Boolean(config.validation?.checkWebsites)}
+            onChange={(e) => onConfigChange({ ...config, validation: { ...config.validation, checkWebsites: e.target.checked } })}
+            disabled={isRunning}
+            className="mr-2"
+          />
+          Check websites (each record's site is loaded once to flag sites that are down or redirect to another domain)
+        </label>
+        <p className="text-xs text-gray-500 mt-2">
+          Records are always flagged for a missing name, an address that could not be parsed, an unknown state, an invalid email or one on a different domain than the website, and whether the email is a role or personal address.
+        </p>
+      </div>
+
+      <EnrichmentSettings isRunning={isRunning} onLog={onLog} />
+
+      <ExportSettings fields={getSchema(config)} />
+
+      <SheetsSettings isRunning={isRunning} />
+    </div>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { getSheetsSettings, updateSheetsSettings } from '../api/sheets';
+
+interface SheetsSettingsProps {
+  isRunning: boolean;
+}
+
+function SheetsSettings({ isRunning }: SheetsSettingsProps) {
+  const [settings, setSettings] = useState(getSheetsSettings());
+
+  const update = (changes: Parameters<typeof updateSheetsSettings>[0]) => {
+    setSettings(updateSheetsSettings(changes));
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Google Sheets Export
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="spreadsheetId" className="block text-xs text-gray-500 mb-1">
+            Spreadsheet ID
+          </label>
+          <input
+            type="text"
+            id="spreadsheetId"
+            value={settings.spreadsheetId}
+            onChange={(e) => update({ spreadsheetId: e.target.value.trim() })}
+            disabled={isRunning}
+            className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheetsBaseUrl" className="block text-xs text-gray-500 mb-1">
+            API Base URL
+          </label>
+          <input
+            type="text"
+            id="sheetsBaseUrl"
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+            disabled={isRunning}
+            className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheetsBatchSize" className="block text-xs text-gray-500 mb-1">
+            Rows Per Write Request
+          </label>
+          <input
+            type="number"
+            id="sheetsBatchSize"
+            min={1}
+            value={settings.batchSize}
+            onChange={(e) => update({ batchSize: Math.max(1, Number(e.target.value)) })}
+            disabled={isRunning}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheetsDelay" className="block text-xs text-gray-500 mb-1">
+            Delay Between Requests (ms)
+          </label>
+          <input
+            type="number"
+            id="sheetsDelay"
+            min={0}
+            value={settings.requestDelayMs}
+            onChange={(e) => update({ requestDelayMs: Math.max(0, Number(e.target.value)) })}
+            disabled={isRunning}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Each state gets its own tab. Rows are matched by the ID column, so exporting again updates existing rows instead of adding duplicates.
+        Change the base URL to use a local stand-in Sheets server.
+      </p>
+    </div>
+  );
+}
+
+export default SheetsSettings;
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { SchemaField, formatFieldValue, textToFieldValue } from '../api/schema';
+import {
+  FieldTransform,
+  TextCase,
+  TransformType,
+  dialingPlans,
+  textCases,
+  transformTypes,
+  validateTransforms
+} from '../api/transforms';
+
+interface TransformEditorProps {
+  field: SchemaField;
+  // Relative links in the sample are resolved against this URL, as they would be on the source's pages
+  pageUrl: string;
+  isRunning: boolean;
+  onChange: (transforms: FieldTransform[]) => void;
+}
+
+// Edit a field's transform chain and try it on sample text
+function TransformEditor({ field, pageUrl, isRunning, onChange }: TransformEditorProps) {
+  const [sample, setSample] = useState('');
+  const transforms = field.transforms ?? [];
+  const errors = validateTransforms(transforms);
+  const result = sample && errors.length === 0 ? textToFieldValue(sample, field, pageUrl) : null;
+
+  const updateTransform = (index: number, changes: Partial<FieldTransform>) => {
+    onChange(transforms.map((transform, i) => (i === index ? { ...transform, ...changes } : transform)));
+  };
+
+  const moveTransform = (index: number, offset: number) => {
+    const reordered = [...transforms];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-md p-2 mt-2">
+      {transforms.map((transform, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="text-xs text-gray-500 w-4">{index + 1}.</span>
+          <select
+            value={transform.type}
+            onChange={(e) => updateTransform(index, { type: e.target.value as TransformType })}
+            disabled={isRunning}
+            className="p-1 border border-gray-300 rounded-md text-sm"
+          >
+            {Object.entries(transformTypes).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+
+          {transform.type === 'regex' && (
+            <>
+              <input
+                type="text"
+                value={transform.pattern ?? ''}
+                onChange={(e) => updateTransform(index, { pattern: e.target.value })}
+                disabled={isRunning}
+                placeholder="Pattern, e.g. Phone:\s*(.+)"
+                className="flex-1 min-w-[10rem] p-1 border border-gray-300 rounded-md font-mono text-sm"
+              />
+              <input
+                type="number"
+                min={0}
+                value={transform.group ?? ''}
+                onChange={(e) => updateTransform(index, { group: e.target.value === '' ? undefined : Number(e.target.value) })}
+                disabled={isRunning}
+                placeholder="Group"
+                title="Capture group to keep; 0 keeps the whole match, blank keeps the first group"
+                className="w-20 p-1 border border-gray-300 rounded-md text-sm"
+              />
+              <label className="flex items-center text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={Boolean(transform.ignoreCase)}
+                  onChange={(e) => updateTransform(index, { ignoreCase: e.target.checked })}
+                  disabled={isRunning}
+                  className="mr-1"
+                />
+                Ignore case
+              </label>
+            </>
+          )}
+          {transform.type === 'case' && (
+            <select
+              value={transform.textCase ?? 'lower'}
+              onChange={(e) => updateTransform(index, { textCase: e.target.value as TextCase })}
+              disabled={isRunning}
+              className="p-1 border border-gray-300 rounded-md text-sm"
+            >
+              {Object.entries(textCases).map(([textCase, label]) => (
+                <option key={textCase} value={textCase}>{label}</option>
+              ))}
+            </select>
+          )}
+          {transform.type === 'number' && (
+            <select
+              value={transform.decimal ?? '.'}
+              onChange={(e) => updateTransform(index, { decimal: e.target.value as '.' | ',' })}
+              disabled={isRunning}
+              className="p-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value=".">1,234.56</option>
+              <option value=",">1.234,56</option>
+            </select>
+          )}
+          {transform.type === 'phone' && (
+            <select
+              value={transform.country ?? 'US'}
+              onChange={(e) => updateTransform(index, { country: e.target.value })}
+              disabled={isRunning}
+              title="Country of numbers written without a calling code"
+              className="p-1 border border-gray-300 rounded-md text-sm"
+            >
+              {Object.entries(dialingPlans).map(([country, { code }]) => (
+                <option key={country} value={country}>{country} (+{code})</option>
+              ))}
+            </select>
+          )}
+
+          <div className="ml-auto flex">
+            <button
+              onClick={() => moveTransform(index, -1)}
+              disabled={isRunning || index === 0}
+              title="Move up"
+              className={`p-1 text-gray-500 hover:text-gray-800 ${index === 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => moveTransform(index, 1)}
+              disabled={isRunning || index === transforms.length - 1}
+              title="Move down"
+              className={`p-1 text-gray-500 hover:text-gray-800 ${index === transforms.length - 1 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <ArrowDown size={14} />
+            </button>
+            <button
+              onClick={() => onChange(transforms.filter((_transform, i) => i !== index))}
+              disabled={isRunning}
+              title="Remove transform"
+              className="p-1 text-red-500 hover:text-red-700"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...transforms, { type: 'whitespace' }])}
+        disabled={isRunning}
+        className="text-sm text-blue-600 hover:text-blue-800 flex items-center mb-2"
+      >
+        <Plus size={14} className="mr-1" />
+        Add Transform
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 mb-2 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-2 md:items-center">
+        <input
+          type="text"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Paste text from the page to preview the result"
+          className="flex-1 p-1 border border-gray-300 rounded-md text-sm"
+        />
+        <span className="text-sm md:w-1/3 truncate">
+          {sample && (result === null
+            ? <span className="text-red-600">No value; the item would have this field empty</span>
+            : <span className="font-mono text-gray-800">{formatFieldValue(result)}</span>)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default TransformEditor;
@@ -0,0 +1,110 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Constants
+// Largest request body accepted, enough for a profile with long selectors
+const MAX_BODY_BYTES = 1024 * 1024;
+// Hosts a page may call the server from without being listed: this machine, including the dev server
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// Types
+export type RouteHandler = (request: IncomingMessage, response: ServerResponse, params: string[], query: URLSearchParams) => unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+export interface RouterOptions {
+  // Origins, such as "http://192.168.1.5:5173", whose pages may call the server besides this machine's
+  allowedOrigins?: string[];
+}
+
+// Thrown by handlers to answer with an error status; details list individual problems
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details: string[] = []) {
+    super(message);
+  }
+}
+
+// Send a JSON response
+export function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+// Read and parse a JSON request body. Requiring the JSON content type keeps other sites' pages from
+// sending one with a plain form, which browsers allow without asking the server first.
+export async function readJson<T>(request: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> {
+  const type = request.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (type !== 'application/json') throw new HttpError(415, 'Request body must be sent as application/json');
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  // Every route takes an object, so null, arrays and plain values are refused before handlers read fields
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as T;
+}
+
+// Whether a request may come from the page it says it comes from. Requests without an Origin, such as
+// from curl or scripts, are not sent by other sites' pages and are let through.
+function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return true;
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    return LOOPBACK_HOSTS.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Decode the parts of a path a route captured
+function decodeParams(params: string[]): string[] {
+  try {
+    return params.map(decodeURIComponent);
+  } catch (error) {
+    if (error instanceof URIError) throw new HttpError(400, 'Request path is not correctly encoded');
+    throw error;
+  }
+}
+
+// Create a request handler from a route table. Handlers return a value to send as JSON,
+// or write the response themselves and return undefined.
+export function createRouter(routes: Route[], { allowedOrigins = [] }: RouterOptions = {}) {
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const matching = routes.filter(route => route.pattern.test(url.pathname));
+    const route = matching.find(candidate => candidate.method === request.method);
+
+    try {
+      if (!isAllowedOrigin(request.headers.origin, allowedOrigins)) {
+        throw new HttpError(403, `Requests from ${request.headers.origin} are not accepted`);
+      }
+      if (!route) {
+        throw matching.length > 0 ? new HttpError(405, 'Method not allowed') : new HttpError(404, 'Not found');
+      }
+      const params = decodeParams(url.pathname.match(route.pattern)!.slice(1));
+      const result = await route.handler(request, response, params, url.searchParams);
+      if (result !== undefined) sendJson(response, 200, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message, details: error.details });
+        return;
+      }
+      console.error(`${request.method} ${url.pathname} failed:`, error instanceof Error ? error.message : error);
+      if (!response.headersSent) sendJson(response, 500, { error: 'Internal server error', details: [] });
+    }
+  };
+}
@@ -0,0 +1,221 @@
+// Must stay the first import: it points storage at files before settings are loaded
+import { DATA_DIR } from '../cli/environment';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { JobChanges, JobDetail, JobEvent, NewJobRequest, ScrapeJob, listJobSummaries, recordChangesSince, summarizeJob } from '../api/jobs';
+import {
+  EnrichmentSettings,
+  clearEmailCache,
+  getEnrichmentStatus,
+  syncHunterUsage,
+  updateEnrichmentSettings
+} from '../api/enrichment';
+import { RecordChanges } from '../api/records';
+import { ImportMode } from '../api/imports';
+import { Charity, ScraperConfig, testSelectorsOnPage } from '../api/scraper';
+import { validateScraperConfig } from '../api/profiles';
+import { closeBrowser } from '../api/renderer';
+import { HttpError, createRouter, readJson } from './http';
+import {
+  cancelJob,
+  createServerJob,
+  deleteServerJob,
+  deleteServerRecords,
+  editServerRecord,
+  importServerRecords,
+  pauseJob,
+  recoverInterruptedJobs,
+  requireJob,
+  startJob,
+  subscribe,
+  updateServerJob
+} from './jobManager';
+
+// Constants
+const PORT = Number(process.env.SERVER_PORT || 3001);
+// Only this machine can connect unless SERVER_HOST opens the server wider, e.g. 0.0.0.0 for the network
+const HOST = process.env.SERVER_HOST || '127.0.0.1';
+// Pages on other hosts allowed to call the server, comma-separated, for a UI served from elsewhere
+const ALLOWED_ORIGINS = (process.env.SERVER_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+// Comment lines sent on idle event streams so proxies keep them open
+const HEARTBEAT_MS = 25000;
+// Imported datasets are sent whole, so they may be far larger than other requests
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+// Load a page with an unsaved profile and report what its selectors find there
+async function testSelectors(request: IncomingMessage) {
+  const { config, url } = await readJson<{ config: ScraperConfig; url: string }>(request);
+  if (!config?.selectors) throw new HttpError(400, 'A profile configuration is required');
+  const errors = validateScraperConfig({ ...config, source: 'live', sourceUrl: url });
+  if (errors.length > 0) throw new HttpError(400, 'Fix the profile before testing it', errors);
+
+  try {
+    return await testSelectorsOnPage(url, config);
+  } catch (error) {
+    throw new HttpError(502, `Could not load ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// A job with its log, as single-job routes return it
+function toDetail(job: ScrapeJob): JobDetail {
+  return { ...summarizeJob(job), log: job.log };
+}
+
+// Read a non-negative whole-number query parameter
+function queryNumber(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw new HttpError(400, `${name} must be a whole number`);
+  return number;
+}
+
+// Stream job events to a client with Server-Sent Events until it disconnects
+function streamEvents(request: IncomingMessage, response: ServerResponse): undefined {
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  response.write('retry: 3000\n\n');
+
+  const send = (event: JobEvent) => response.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  const unsubscribe = subscribe(send);
+  const heartbeat = setInterval(() => response.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  request.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+  return undefined;
+}
+
+const router = createRouter([
+  { method: 'GET', pattern: /^\/api\/health$/, handler: () => ({ ok: true }) },
+  { method: 'GET', pattern: /^\/api\/events$/, handler: streamEvents },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs$/,
+    handler: () => listJobSummaries()
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs$/,
+    handler: async request => toDetail(createServerJob(await readJson<NewJobRequest>(request)))
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([^/]+)$/,
+    handler: (_request, _response, [id]) => toDetail(requireJob(id))
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/jobs\/([^/]+)$/,
+    handler: async (request, _response, [id]) => toDetail(updateServerJob(id, await readJson<JobChanges>(request)))
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/jobs\/([^/]+)$/,
+    handler: (_request, _response, [id]) => {
+      deleteServerJob(id);
+      return { id };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs\/([^/]+)\/resume$/,
+    handler: (_request, _response, [id]) => toDetail(startJob(id))
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs\/([^/]+)\/pause$/,
+    handler: (_request, _response, [id]) => toDetail(pauseJob(id))
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs\/([^/]+)\/cancel$/,
+    handler: (_request, _response, [id]) => toDetail(cancelJob(id))
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([^/]+)\/records$/,
+    handler: (_request, _response, [id], query) => {
+      const { charities } = requireJob(id);
+      const offset = queryNumber(query, 'offset') ?? 0;
+      const limit = queryNumber(query, 'limit') ?? charities.length;
+      return { total: charities.length, records: charities.slice(offset, offset + limit) };
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/jobs\/([^/]+)\/changes$/,
+    handler: (_request, _response, [id], query) => recordChangesSince(requireJob(id), queryNumber(query, 'since'))
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/jobs\/([^/]+)\/records\/(\d+)$/,
+    handler: async (request, _response, [id, index]) => {
+      const job = editServerRecord(id, Number(index), await readJson<RecordChanges>(request));
+      return job.charities[Number(index)];
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/jobs\/([^/]+)\/records$/,
+    handler: async (request, _response, [id]) => {
+      const { indexes } = await readJson<{ indexes: number[] }>(request);
+      return { total: deleteServerRecords(id, indexes).charities.length };
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/jobs\/([^/]+)\/import$/,
+    handler: async (request, _response, [id]) => {
+      const { records, mode } = await readJson<{ records: Charity[]; mode: ImportMode }>(request, MAX_IMPORT_BYTES);
+      return { total: importServerRecords(id, records, mode).charities.length };
+    }
+  },
+  { method: 'POST', pattern: /^\/api\/selector-test$/, handler: testSelectors },
+  { method: 'GET', pattern: /^\/api\/enrichment$/, handler: getEnrichmentStatus },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/enrichment$/,
+    handler: async request => {
+      updateEnrichmentSettings(await readJson<Partial<EnrichmentSettings>>(request));
+      return getEnrichmentStatus();
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/enrichment\/sync$/,
+    handler: async () => {
+      try {
+        await syncHunterUsage();
+      } catch (error) {
+        throw new HttpError(502, `Could not sync Hunter usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return getEnrichmentStatus();
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/enrichment\/cache$/,
+    handler: () => {
+      clearEmailCache();
+      return getEnrichmentStatus();
+    }
+  }
+], { allowedOrigins: ALLOWED_ORIGINS });
+
+const server = http.createServer(router);
+
+const recovered = recoverInterruptedJobs();
+if (recovered > 0) console.log(`${recovered} interrupted job(s) were paused; resume them from the UI.`);
+
+server.listen(PORT, HOST, () => {
+  console.log(`Scraping server listening on http://${HOST}:${PORT} (data in ${DATA_DIR})`);
+});
+
+// Jobs are saved after every page, so stopping the server only loses the page in progress
+process.on('SIGINT', () => {
+  server.close();
+  closeBrowser().finally(() => process.exit(0));
+});
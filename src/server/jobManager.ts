@@ -0,0 +1,227 @@
+import {
+  JobChanges,
+  JobEvent,
+  NewJobRequest,
+  ScrapeJob,
+  appendJobLog,
+  createJob,
+  deleteJob,
+  isResumable,
+  listJobSummaries,
+  loadJob,
+  saveJob,
+  setJobArchived,
+  setJobRecords,
+  summarizeJob,
+  validateJobSettings
+} from '../api/jobs';
+import { validateScraperConfig } from '../api/profiles';
+import { RecordChanges, deleteRecords, editRecord } from '../api/records';
+import { ImportMode, applyImport, importModes, validateImportedRecord } from '../api/imports';
+import type { Charity } from '../api/scraper';
+import { getSchema } from '../api/schema';
+import type { LogEvent } from '../api/log';
+import { runJob } from '../api/runner';
+import { HttpError } from './http';
+
+// Types
+type StopRequest = 'pause' | 'cancel';
+
+// Jobs running in this process, with any stop asked for while they run
+const runningJobs = new Map<string, { stop?: StopRequest }>();
+const listeners = new Set<(event: JobEvent) => void>();
+
+// Receive job events until the returned function is called
+export function subscribe(listener: (event: JobEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Send an event to every subscriber
+function emit(event: JobEvent): void {
+  listeners.forEach(listener => listener(event));
+}
+
+// Check whether a job is being scraped right now
+export function isJobRunning(id: string): boolean {
+  return runningJobs.has(id);
+}
+
+// Load a job or answer 404
+export function requireJob(id: string): ScrapeJob {
+  const job = loadJob(id);
+  if (!job) throw new HttpError(404, `No job "${id}"`);
+  return job;
+}
+
+// Add an entry to a saved job's log, save it and tell subscribers
+function noteAndSave(job: ScrapeJob, message: string, event: Partial<LogEvent> = {}): ScrapeJob {
+  const saved = saveJob(appendJobLog(job, message, event));
+  emit({ type: 'log', jobId: saved.id, entry: saved.log[saved.log.length - 1] });
+  emit({ type: 'job', job: summarizeJob(saved) });
+  return saved;
+}
+
+// Tell subscribers about a running job's progress without saving: the runner owns its saved copy
+function announce(job: ScrapeJob, message: string): void {
+  const { log } = appendJobLog(job, message);
+  emit({ type: 'log', jobId: job.id, entry: log[log.length - 1] });
+}
+
+// Jobs saved as running when the server stopped were interrupted; they come back paused
+export function recoverInterruptedJobs(): number {
+  const interrupted = listJobSummaries()
+    .filter(job => job.status === 'running')
+    .map(job => loadJob(job.id))
+    .filter((job): job is ScrapeJob => job !== null);
+  interrupted.forEach(job => noteAndSave({ ...job, status: 'paused' }, 'Interrupted by a server restart.', { level: 'warn' }));
+  return interrupted.length;
+}
+
+// Create a job from a request, starting it if asked
+export function createServerJob(request: NewJobRequest): ScrapeJob {
+  if (!request.name || !request.config?.selectors) {
+    throw new HttpError(400, 'A job needs a name and a config with selectors');
+  }
+  const job = createJob(request.name, request.config, request.options);
+  const errors = [...validateScraperConfig(job.config), ...validateJobSettings(job.settings)];
+  if (errors.length > 0) throw new HttpError(400, 'The job configuration is not valid', errors);
+
+  const saved = noteAndSave(job, `New job created for ${job.config.sourceUrl}`);
+  return request.start ? startJob(saved.id) : saved;
+}
+
+// Start or continue a job in the background
+export function startJob(id: string): ScrapeJob {
+  const job = requireJob(id);
+  if (isJobRunning(id)) throw new HttpError(409, 'This job is already running');
+  if (!isResumable(job)) throw new HttpError(409, `This job is ${job.status} and cannot be continued`);
+
+  const run = {} as { stop?: StopRequest };
+  runningJobs.set(id, run);
+  runJob(job, {
+    onLog: entry => emit({ type: 'log', jobId: id, entry }),
+    onUpdate: updated => emit({ type: 'job', job: summarizeJob(updated) }),
+    shouldStop: () => run.stop !== undefined
+  })
+    .then(finished => {
+      if (run.stop === 'cancel' && finished.hasMore) noteAndSave({ ...finished, status: 'cancelled' }, 'Job cancelled.');
+    })
+    .catch(error => {
+      // Page errors are recorded by the runner; this only catches storage failures
+      console.error(`Job ${id} stopped unexpectedly:`, error instanceof Error ? error.message : error);
+    })
+    .finally(() => {
+      runningJobs.delete(id);
+    });
+  // The runner saves the job as running before its first page, so this reads the new status
+  return requireJob(id);
+}
+
+// Ask a running job to pause; it stops between the detail pages or email lookups of the current page
+export function pauseJob(id: string): ScrapeJob {
+  const job = requireJob(id);
+  const run = runningJobs.get(id);
+  if (!run) throw new HttpError(409, 'This job is not running');
+  run.stop = 'pause';
+  announce(job, 'Pausing...');
+  return job;
+}
+
+// Stop a job for good; a running job stops part way through the current page
+export function cancelJob(id: string): ScrapeJob {
+  const job = requireJob(id);
+  if (job.status === 'cancelled' || job.status === 'completed') {
+    throw new HttpError(409, `This job is already ${job.status}`);
+  }
+  const run = runningJobs.get(id);
+  if (run) {
+    run.stop = 'cancel';
+    announce(job, 'Cancelling...');
+    return job;
+  }
+  return noteAndSave({ ...job, status: 'cancelled' }, 'Job cancelled.');
+}
+
+// Rename, archive or change the batch settings of a job
+export function updateServerJob(id: string, changes: JobChanges): ScrapeJob {
+  let job = requireJob(id);
+  if (isJobRunning(id)) throw new HttpError(409, 'Pause the job before changing it');
+  if (changes.settings) {
+    const settings = { ...job.settings, ...changes.settings };
+    const errors = validateJobSettings(settings);
+    if (errors.length > 0) throw new HttpError(400, 'The job settings are not valid', errors);
+    job = { ...job, settings };
+  }
+  if (changes.name) job = { ...job, name: changes.name };
+  job = changes.archived === undefined ? saveJob(job) : setJobArchived(job, changes.archived);
+  emit({ type: 'job', job: summarizeJob(job) });
+  return job;
+}
+
+// Delete a job that is not running
+export function deleteServerJob(id: string): void {
+  requireJob(id);
+  if (isJobRunning(id)) throw new HttpError(409, 'Cancel or pause the job before deleting it');
+  deleteJob(id);
+  emit({ type: 'deleted', jobId: id });
+}
+
+// Load a job whose records may be changed; positions only stay put while nothing is scraped
+function requireIdleJob(id: string): ScrapeJob {
+  const job = requireJob(id);
+  if (isJobRunning(id)) throw new HttpError(409, 'Pause the job before editing its records');
+  return job;
+}
+
+// Edit one record of a job
+export function editServerRecord(id: string, index: number, changes: RecordChanges): ScrapeJob {
+  const job = requireIdleJob(id);
+  let charities;
+  try {
+    charities = editRecord(job.charities, index, changes, getSchema(job.config));
+  } catch (error) {
+    if (error instanceof RangeError) throw new HttpError(404, error.message);
+    throw error;
+  }
+  const saved = saveJob(setJobRecords(job, charities));
+  emit({ type: 'job', job: summarizeJob(saved) });
+  return saved;
+}
+
+// Bring imported records into a job. The browser maps and checks rows; they are checked again here.
+export function importServerRecords(id: string, records: Charity[], mode: ImportMode): ScrapeJob {
+  const job = requireIdleJob(id);
+  // Own keys only, so names such as "constructor" are not taken for a mode
+  if (!Object.prototype.hasOwnProperty.call(importModes, mode)) throw new HttpError(400, `Unknown import mode "${mode}"`);
+  if (!Array.isArray(records) || records.length === 0) throw new HttpError(400, 'No records were given to import');
+
+  const fields = getSchema(job.config);
+  const details = records.flatMap((record, index) =>
+    typeof record === 'object' && record !== null
+      ? validateImportedRecord(record, fields).map(error => `Record ${index + 1}: ${error}`)
+      : [`Record ${index + 1}: not an object`]
+  );
+  if (details.length > 0) throw new HttpError(400, 'Some imported records are invalid', details);
+
+  const result = applyImport(job.charities, records, mode);
+  const summary = mode === 'merge'
+    ? `${result.added} added, ${result.merged} merged with existing records`
+    : `${result.added} added`;
+  return noteAndSave(
+    setJobRecords(job, result.charities),
+    `Imported ${records.length} record(s)${mode === 'replace' ? ', replacing the previous records' : ''}: ${summary}.`
+  );
+}
+
+// Delete records of a job by position
+export function deleteServerRecords(id: string, indexes: number[]): ScrapeJob {
+  const job = requireIdleJob(id);
+  if (!Array.isArray(indexes) || indexes.length === 0) throw new HttpError(400, 'No records were given to delete');
+  return noteAndSave(
+    setJobRecords(job, deleteRecords(job.charities, indexes)),
+    `Deleted ${indexes.length} record(s) by hand.`
+  );
+}
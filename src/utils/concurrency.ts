@@ -0,0 +1,64 @@
+// Constants
+// How often a wait checks whether it should end early
+const STOP_POLL_MS = 250;
+
+// Wait for a while, returning early once shouldStop says so
+export async function waitUnlessStopped(ms: number, shouldStop: () => boolean): Promise<void> {
+  const end = Date.now() + ms;
+  while (Date.now() < end && !shouldStop()) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(STOP_POLL_MS, end - Date.now())));
+  }
+}
+
+// Map over items with at most `limit` calls in flight, preserving input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+// Map over items like mapWithConcurrency, but start no new item once shouldStop says so. Returns
+// the results of the items finished in a row from the first; an item that throws while stopping
+// ends that row, and later results are dropped so they can be redone in order.
+export async function mapUntilStopped<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean
+): Promise<R[]> {
+  const results: R[] = [];
+  const finished: boolean[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      try {
+        results[index] = await mapper(items[index], index);
+        finished[index] = true;
+      } catch (error) {
+        if (!shouldStop()) throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  let count = 0;
+  while (count < items.length && finished[count]) count++;
+  return results.slice(0, count);
+}
@@ -0,0 +1,54 @@
+// Types
+// Key-value store the app persists to: localStorage in the browser, files under Node
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+// Wrap the browser's localStorage, when there is one
+function localStorageBackend(): StorageBackend | null {
+  if (typeof localStorage === 'undefined') return null;
+  return {
+    getItem: key => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: key => localStorage.removeItem(key),
+    keys: () => Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index) ?? '').filter(Boolean)
+  };
+}
+
+let backend: StorageBackend | null = localStorageBackend();
+
+// Replace where values are persisted; call before importing modules that load saved settings
+export function setStorageBackend(next: StorageBackend): void {
+  backend = next;
+}
+
+// Read a JSON value from storage, falling back when missing, unreadable or when nothing is persisted
+export function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = backend?.getItem(key);
+    if (saved) {
+      return JSON.parse(saved) as T;
+    }
+  } catch (error) {
+    console.error(`Error loading ${key} from storage:`, error);
+  }
+  return fallback;
+}
+
+// Write a JSON value to storage (a no-op when nothing is persisted)
+export function saveJson(key: string, value: unknown): void {
+  backend?.setItem(key, JSON.stringify(value));
+}
+
+// Delete a stored value
+export function removeJson(key: string): void {
+  backend?.removeItem(key);
+}
+
+// List stored keys that start with a prefix
+export function listKeys(prefix: string): string[] {
+  return (backend?.keys() ?? []).filter(key => key.startsWith(prefix));
+}
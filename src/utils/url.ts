@@ -0,0 +1,20 @@
+// Extract domain from URL
+export function extractDomain(url: string): string | null {
+  if (!url) return null;
+  
+  try {
+    const domain = new URL(url).hostname.toLowerCase();
+    return domain.startsWith('www.') ? domain.substring(4) : domain;
+  } catch {
+    return null;
+  }
+}
+
+// Resolve a possibly relative link against the page it was found on
+export function absoluteUrl(href: string, pageUrl: string): string {
+  try {
+    return new URL(href, pageUrl).toString();
+  } catch {
+    return href;
+  }
+}
@@ -0,0 +1,190 @@
+import { createZip, readZip } from './zip';
+
+// Types
+export type CellValue = string | number | boolean | null | undefined;
+
+export interface Worksheet {
+  name: string;
+  rows: CellValue[][];
+}
+
+// Constants
+// Excel limits sheet names to 31 characters and forbids these
+const SHEET_NAME_LIMIT = 31;
+const SHEET_NAME_FORBIDDEN = /[[\]:*?/\\]/g;
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Whether XML can hold a character: of the control characters, only tab, line feed and carriage return
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+// Escape text for XML, dropping control characters XML cannot hold
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Spreadsheet column letters for a 0-based index: A, B, ... Z, AA, AB, ...
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Make sheet names valid and unique
+function sheetNames(sheets: Worksheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map(sheet => {
+    const base = sheet.name.replace(SHEET_NAME_FORBIDDEN, ' ').trim().slice(0, SHEET_NAME_LIMIT) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, SHEET_NAME_LIMIT - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// One cell; text is stored inline so no shared-strings table is needed
+function cellXml(value: CellValue, reference: string): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+// A worksheet, with the first row frozen as the header
+function worksheetXml(rows: CellValue[][]): string {
+  const body = rows
+    .map((row, rowIndex) => {
+      const cells = row.map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`)).join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+// Build an .xlsx workbook with one sheet per entry
+export function createWorkbook(sheets: Worksheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = sheetNames(sheets);
+  const numbers = sheets.map((_sheet, index) => index + 1);
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + numbers.map(n => `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>',
+    '_rels/.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>`
+      + names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+      + '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + numbers.map(n => `<Relationship Id="rId${n}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${n}.xml"/>`).join('')
+      + '</Relationships>'
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = worksheetXml(sheet.rows);
+  });
+
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+}
+
+// Decode the XML entities spreadsheet files use
+function unescapeXml(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(Number(lower.slice(1)));
+    return named[lower];
+  });
+}
+
+// 0-based index of spreadsheet column letters
+function columnIndex(letters: string): number {
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Value of an attribute in a tag's attribute text
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// Text of every <t> element in a fragment, which joins the runs of rich text
+function textContent(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => unescapeXml(match[1])).join('');
+}
+
+// Value of one <c> element
+function readCell(attributes: string, body: string, sharedStrings: string[]): CellValue {
+  const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+  switch (attribute(attributes, 't')) {
+    case 's':
+      return raw === undefined ? null : sharedStrings[Number(raw)] ?? null;
+    case 'inlineStr':
+      return textContent(body);
+    case 'b':
+      return raw === '1';
+    case 'str':
+    case 'e':
+      return raw === undefined ? null : unescapeXml(raw);
+    default:
+      return raw === undefined ? null : Number(raw);
+  }
+}
+
+// Rows of a worksheet, placing each cell by its reference so skipped cells stay empty
+function readWorksheet(xml: string, sharedStrings: string[]): CellValue[][] {
+  const rows: CellValue[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r') ?? rows.length + 1);
+    const row: CellValue[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = /^[A-Z]+/.exec(attribute(cellMatch[1], 'r') ?? '')?.[0];
+      row[reference ? columnIndex(reference) : row.length] = readCell(cellMatch[1], cellMatch[2] ?? '', sharedStrings);
+    }
+    rows[rowNumber - 1] = Array.from(row, value => value ?? null);
+  }
+  return Array.from(rows, row => row ?? []);
+}
+
+// Read the sheets of an .xlsx workbook, in workbook order
+export async function readWorkbook(data: Uint8Array): Promise<Worksheet[]> {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(data)).map(entry => [entry.name, decoder.decode(entry.data)]));
+  const workbook = files.get('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+
+  const sharedStrings = [...(files.get('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => textContent(match[1]));
+
+  // Sheets point at their files through the workbook's relationships
+  const targets = new Map<string, string>();
+  for (const match of (files.get('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b([^>]*)>/g)) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return [...workbook.matchAll(/<sheet\b([^>]*)>/g)].map(match => {
+    const path = targets.get(attribute(match[1], 'r:id') ?? '') ?? '';
+    return { name: attribute(match[1], 'name') ?? 'Sheet', rows: readWorksheet(files.get(path) ?? '', sharedStrings) };
+  });
+}
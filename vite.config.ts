@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    // Scraping runs in the local server (npm run server); the UI talks to it through this proxy
+    proxy: {
+      '/api': `http://127.0.0.1:${process.env.SERVER_PORT || 3001}`,
+    },
+  },
 });